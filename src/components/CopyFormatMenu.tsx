@@ -0,0 +1,53 @@
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toAwsCliCommands, toServerlessFunction, type CloudFormationOptions } from "@/lib/cron";
+
+interface CopyFormatMenuProps {
+  /** The EventBridge expression next to the button. */
+  rule: string;
+  /** Every expression of the conversion, which the deployment formats cover together. */
+  rules: string[];
+  options: CloudFormationOptions;
+  className?: string;
+  onCopy: (text: string, message?: string) => void;
+}
+
+const CopyFormatMenu = ({ rule, rules, options, className, onCopy }: CopyFormatMenuProps) => {
+  const all = rules.length > 1 ? ` (all ${rules.length} rules)` : "";
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="ghost" className={className} aria-label="Copy as">
+          <Copy className="w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Copy as</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => onCopy(rule)}>Expression</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => onCopy(`cron(${rule})`)}>cron(...) schedule expression</DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          onSelect={() => onCopy(toAwsCliCommands(rules, options), "AWS CLI commands copied to clipboard")}
+        >
+          AWS CLI command{all}
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onSelect={() => onCopy(toServerlessFunction(rules, options), "serverless.yml snippet copied to clipboard")}
+        >
+          serverless.yml snippet{all}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default CopyFormatMenu;
@@ -0,0 +1,258 @@
+import { useEffect, useMemo, useState } from "react";
+import { Copy } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import {
+  describeCron,
+  parseCrontab,
+  toRuleDefinitions,
+  COMMON_TIME_ZONES,
+  type CommandTargetKind,
+  type CronDiagnostic,
+  type CrontabEntryStatus,
+  type DescriptionLanguage,
+} from "@/lib/cron";
+
+interface CrontabImportProps {
+  language: DescriptionLanguage;
+}
+
+const STATUS_STYLES: Record<CrontabEntryStatus, string> = {
+  clean: "border-green-700 text-green-300",
+  split: "border-purple-700 text-purple-300",
+  lossy: "border-yellow-700 text-yellow-300",
+  unsupported: "border-red-700 text-red-300",
+};
+
+const NOTE_STYLES: Record<CronDiagnostic["severity"], string> = {
+  error: "text-red-300",
+  warning: "text-yellow-300",
+  info: "text-purple-300",
+};
+
+const COMMAND_TARGETS: Record<CommandTargetKind | "none", string> = {
+  none: "None (schedule only)",
+  lambda: "Lambda input payload",
+  ecs: "ECS RunTask container override",
+  ssm: "SSM Run Command",
+};
+
+// Converting runs the DST split for every entry, so it waits for a pause in typing
+const CONVERT_DELAY_MS = 300;
+
+const PLACEHOLDER = `SHELL=/bin/bash
+MAILTO=ops@example.com
+# m h dom mon dow command
+*/15 * * * * /opt/app/poll.sh
+0 9 1-7 * 1 /opt/app/report.sh`;
+
+const CrontabImport = ({ language }: CrontabImportProps) => {
+  const [text, setText] = useState("");
+  const [convertedText, setConvertedText] = useState("");
+  const [system, setSystem] = useState(false);
+  const [timeZone, setTimeZone] = useState("UTC");
+  const [commandTarget, setCommandTarget] = useState<CommandTargetKind | "none">("none");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setConvertedText(text), CONVERT_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [text]);
+
+  const report = useMemo(
+    () =>
+      parseCrontab(convertedText, {
+        system,
+        timeZone,
+        commandTarget: commandTarget === "none" ? undefined : commandTarget,
+      }),
+    [convertedText, system, timeZone, commandTarget]
+  );
+  const definitions = useMemo(() => JSON.stringify(toRuleDefinitions(report.entries), null, 2), [report]);
+  const counts = report.entries.reduce<Partial<Record<CrontabEntryStatus, number>>>(
+    (totals, entry) => ({ ...totals, [entry.status]: (totals[entry.status] ?? 0) + 1 }),
+    {}
+  );
+
+  const loadFile = async (file?: File) => {
+    if (file) setText(await file.text());
+  };
+
+  const copyDefinitions = async () => {
+    try {
+      await navigator.clipboard.writeText(definitions);
+      toast({ title: "Copied!", description: "Rule definitions copied to clipboard" });
+    } catch (err) {
+      toast({ title: "Copy failed", description: "Could not copy to clipboard", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-white">Crontab File Import</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="crontab-file" className="text-slate-200">
+            Paste a crontab or load one from disk
+          </Label>
+          <Textarea
+            id="crontab-file"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={PLACEHOLDER}
+            rows={8}
+            className="bg-slate-700 border-slate-600 text-white placeholder-slate-400 font-mono text-sm"
+          />
+          <Input
+            type="file"
+            aria-label="Crontab file"
+            onChange={(e) => loadFile(e.target.files?.[0])}
+            className="bg-slate-700 border-slate-600 text-slate-300"
+          />
+        </div>
+
+        <div className="grid sm:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="crontab-time-zone" className="text-slate-200">
+              Default Time Zone
+            </Label>
+            <Select value={timeZone} onValueChange={setTimeZone}>
+              <SelectTrigger id="crontab-time-zone" className="bg-slate-700 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COMMON_TIME_ZONES.map((zone) => (
+                  <SelectItem key={zone} value={zone}>
+                    {zone}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-slate-400">Used until a CRON_TZ= line sets another zone</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="crontab-command-target" className="text-slate-200">
+              Command Target
+            </Label>
+            <Select
+              value={commandTarget}
+              onValueChange={(value) => setCommandTarget(value as CommandTargetKind | "none")}
+            >
+              <SelectTrigger id="crontab-command-target" className="bg-slate-700 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(COMMAND_TARGETS).map(([value, name]) => (
+                  <SelectItem key={value} value={value}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-slate-400">Turns each command into a target stub</p>
+          </div>
+          <div className="flex items-center gap-2 sm:pt-8">
+            <Switch id="crontab-system" checked={system} onCheckedChange={setSystem} />
+            <Label htmlFor="crontab-system" className="text-slate-300 font-normal">
+              System crontab (/etc/crontab, /etc/cron.d) with a user column
+            </Label>
+          </div>
+        </div>
+
+        {report.entries.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(counts).map(([status, count]) => (
+                <Badge key={status} variant="outline" className={STATUS_STYLES[status as CrontabEntryStatus]}>
+                  {count} {status}
+                </Badge>
+              ))}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-600 hover:bg-transparent">
+                  <TableHead className="text-slate-400 w-12">Line</TableHead>
+                  <TableHead className="text-slate-400">Entry</TableHead>
+                  <TableHead className="text-slate-400">EventBridge</TableHead>
+                  <TableHead className="text-slate-400 w-28">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.entries.map((entry) => (
+                  <TableRow key={entry.line} className="border-slate-700 hover:bg-slate-700/50 align-top">
+                    <TableCell className="text-slate-500 font-mono">{entry.line}</TableCell>
+                    <TableCell className="space-y-1">
+                      <p className="font-mono text-slate-200">{entry.schedule}</p>
+                      <p className="font-mono text-xs text-slate-400 break-all">
+                        {entry.user && `${entry.user}: `}
+                        {entry.command}
+                      </p>
+                      {entry.expression && (
+                        <p className="text-xs text-slate-300">
+                          {describeCron(entry.expression, language)}
+                          {entry.timeZone !== "UTC" && ` (${entry.timeZone})`}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="space-y-1">
+                      {entry.rules.map((rule) => (
+                        <p key={rule} className="font-mono text-slate-200">
+                          cron({rule})
+                        </p>
+                      ))}
+                      {entry.diagnostics.map((diagnostic, index) => (
+                        <p key={index} className={`text-xs ${NOTE_STYLES[diagnostic.severity]}`}>
+                          {diagnostic.message}
+                        </p>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={STATUS_STYLES[entry.status]}>
+                        {entry.status}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="relative">
+              <Label htmlFor="crontab-rule-definitions" className="text-slate-200">
+                Rule Definitions
+              </Label>
+              <Textarea
+                id="crontab-rule-definitions"
+                value={definitions}
+                readOnly
+                rows={Math.min(definitions.split("\n").length, 16)}
+                className="mt-2 bg-slate-700 border-slate-600 text-white font-mono text-sm pr-12"
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                className="absolute right-2 top-9 text-slate-400 hover:text-white"
+                onClick={copyDefinitions}
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+              <p className="mt-2 text-sm text-slate-400">
+                One put-rule definition per rule, with its targets; replace the placeholders in angle brackets
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CrontabImport;
@@ -0,0 +1,31 @@
+import { formatUtcOffset, type DstReport } from "@/lib/cron";
+
+interface DstTransitionsPanelProps {
+  report: DstReport;
+}
+
+const DstTransitionsPanel = ({ report }: DstTransitionsPanelProps) => (
+  <div className="space-y-3 p-4 bg-slate-700/30 rounded-lg">
+    <h3 className="text-slate-200 font-medium">Daylight saving transitions in {report.timeZone}</h3>
+    <ul className="grid sm:grid-cols-2 gap-1 text-sm font-mono text-slate-300">
+      {report.transitions.map((transition) => (
+        <li key={transition.date}>
+          {transition.date}: {formatUtcOffset(transition.fromOffset)} → {formatUtcOffset(transition.toOffset)}
+        </li>
+      ))}
+    </ul>
+    {report.approximateDates.length > 0 ? (
+      <div className="space-y-1">
+        <p className="text-sm text-yellow-300">
+          Coverage is approximate on {report.approximateDates.length} day
+          {report.approximateDates.length === 1 ? "" : "s"}, where runs fire at a different local time:
+        </p>
+        <p className="text-xs font-mono text-yellow-200 break-words">{report.approximateDates.join(", ")}</p>
+      </div>
+    ) : (
+      <p className="text-sm text-green-300">Every run keeps its local time through these transitions.</p>
+    )}
+  </div>
+);
+
+export default DstTransitionsPanel;
@@ -0,0 +1,82 @@
+import { useRef, type ComponentProps } from "react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { CronDiagnostic, Span } from "@/lib/cron";
+
+interface HighlightedCronInputProps extends Omit<ComponentProps<"input">, "value" | "onChange"> {
+  value: string;
+  onChange: (value: string) => void;
+  /** Diagnostics whose spans point into `value`; their tokens are underlined. */
+  diagnostics: CronDiagnostic[];
+}
+
+interface Segment {
+  text: string;
+  marked: boolean;
+}
+
+// Splits the value at the diagnostic spans. Empty spans (e.g. a missing field
+// at the end) are widened to one character so there is something to underline.
+const toSegments = (value: string, spans: Span[]): Segment[] => {
+  const segments: Segment[] = [];
+  let position = 0;
+  const sorted = [...spans].sort((a, b) => a.start - b.start);
+  for (const span of sorted) {
+    const start = Math.max(span.start, position);
+    const end = Math.max(span.end, span.start + 1);
+    if (end <= start) continue;
+    if (start > position) segments.push({ text: value.slice(position, start), marked: false });
+    segments.push({ text: value.slice(start, end).padEnd(end - start, " "), marked: true });
+    position = end;
+  }
+  if (position < value.length) segments.push({ text: value.slice(position), marked: false });
+  return segments;
+};
+
+/**
+ * A text input that underlines the tokens its diagnostics point at. The
+ * underlines live in a transparent overlay that mirrors the input's text.
+ */
+const HighlightedCronInput = ({ value, onChange, diagnostics, className, ...props }: HighlightedCronInputProps) => {
+  const overlay = useRef<HTMLDivElement>(null);
+  const spans = diagnostics.flatMap((diagnostic) => (diagnostic.span ? [diagnostic.span] : []));
+
+  return (
+    <div className="relative">
+      <Input
+        {...props}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={(e) => {
+          if (overlay.current) overlay.current.scrollLeft = e.currentTarget.scrollLeft;
+        }}
+        aria-invalid={spans.length > 0}
+        className={className}
+      />
+      {spans.length > 0 && (
+        <div
+          ref={overlay}
+          aria-hidden
+          // Same box and font classes as the input, so the text lines up
+          className={cn(
+            "px-3 py-2 border rounded-md text-base md:text-sm",
+            className,
+            "absolute inset-0 flex items-center overflow-hidden whitespace-pre border-transparent bg-transparent text-transparent pointer-events-none"
+          )}
+        >
+          {toSegments(value, spans).map((segment, index) =>
+            segment.marked ? (
+              <span key={index} className="underline decoration-wavy decoration-red-500 underline-offset-4">
+                {segment.text}
+              </span>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HighlightedCronInput;
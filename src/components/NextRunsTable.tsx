@@ -0,0 +1,94 @@
+import { useMemo } from "react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { nextRuns, type CronExpression } from "@/lib/cron";
+
+interface NextRunsTableProps {
+  source: CronExpression;
+  converted: CronExpression[];
+  sourceLabel: string;
+  convertedLabel: string;
+  /** Zone the source expression runs in. */
+  sourceTimeZone?: string;
+  /** Zone the converted expressions run in; UTC unless a target carries its own zone. */
+  convertedTimeZone?: string;
+  count?: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatRun = (date?: Date) =>
+  date ? `${WEEKDAYS[date.getUTCDay()]} ${date.toISOString().slice(0, 16).replace("T", " ")}` : "—";
+
+const NextRunsTable = ({
+  source,
+  converted,
+  sourceLabel,
+  convertedLabel,
+  sourceTimeZone,
+  convertedTimeZone,
+  count = 10,
+}: NextRunsTableProps) => {
+  const rows = useMemo(() => {
+    const from = new Date();
+    const sourceRuns = nextRuns(source, { count, from, timeZone: sourceTimeZone });
+    const convertedRuns = nextRuns(converted, { count, from, timeZone: convertedTimeZone });
+    return Array.from({ length: Math.max(sourceRuns.length, convertedRuns.length) }, (_, index) => ({
+      source: sourceRuns[index],
+      converted: convertedRuns[index],
+      matches: sourceRuns[index]?.getTime() === convertedRuns[index]?.getTime(),
+    }));
+  }, [source, converted, sourceTimeZone, convertedTimeZone, count]);
+
+  const mismatches = rows.filter((row) => !row.matches).length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-slate-200 font-medium">Next {count} runs (UTC)</h3>
+        {mismatches > 0 && (
+          <span className="text-sm text-yellow-300">
+            {mismatches} of {rows.length} runs differ
+          </span>
+        )}
+      </div>
+      <Table className="font-mono">
+        <TableHeader>
+          <TableRow className="border-slate-600 hover:bg-transparent">
+            <TableHead className="text-slate-400 w-10">#</TableHead>
+            <TableHead className="text-slate-400">
+              {sourceLabel}
+              {sourceTimeZone && sourceTimeZone !== "UTC" ? ` (${sourceTimeZone})` : ""}
+            </TableHead>
+            <TableHead className="text-slate-400">
+              {convertedLabel}
+              {convertedTimeZone && convertedTimeZone !== "UTC" ? ` (${convertedTimeZone})` : ""}
+            </TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row, index) => (
+            <TableRow
+              key={index}
+              className={`border-slate-700 ${row.matches ? "hover:bg-slate-700/50" : "bg-yellow-900/30 hover:bg-yellow-900/40"}`}
+            >
+              <TableCell className="text-slate-500">{index + 1}</TableCell>
+              <TableCell className="text-slate-200">{formatRun(row.source)}</TableCell>
+              <TableCell className={row.matches ? "text-slate-200" : "text-yellow-200"}>
+                {formatRun(row.converted)}
+              </TableCell>
+            </TableRow>
+          ))}
+          {rows.length === 0 && (
+            <TableRow className="border-slate-700 hover:bg-transparent">
+              <TableCell colSpan={3} className="text-slate-400 text-center">
+                No upcoming runs
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default NextRunsTable;
@@ -0,0 +1,69 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { SchedulerOptions } from "@/lib/cron";
+
+interface SchedulerOptionsFormProps {
+  options: SchedulerOptions;
+  /** Zone the start and end dates are entered in. */
+  timeZone?: string;
+  onChange: (options: SchedulerOptions) => void;
+}
+
+const inputClassName = "bg-slate-700 border-slate-600 text-white placeholder-slate-400";
+
+const SchedulerOptionsForm = ({ options, timeZone = "UTC", onChange }: SchedulerOptionsFormProps) => (
+  <div className="grid sm:grid-cols-2 gap-4">
+    <div className="space-y-2">
+      <Label htmlFor="scheduler-name" className="text-slate-200">
+        Schedule Name
+      </Label>
+      <Input
+        id="scheduler-name"
+        value={options.name ?? ""}
+        onChange={(e) => onChange({ ...options, name: e.target.value })}
+        placeholder="cron-schedule"
+        className={inputClassName}
+      />
+    </div>
+    <div className="space-y-2">
+      <Label htmlFor="scheduler-window" className="text-slate-200">
+        Flexible Time Window (minutes, 0 = off)
+      </Label>
+      <Input
+        id="scheduler-window"
+        type="number"
+        min={0}
+        max={1440}
+        value={options.flexibleWindowMinutes ?? 0}
+        onChange={(e) => onChange({ ...options, flexibleWindowMinutes: Number(e.target.value) })}
+        className={inputClassName}
+      />
+    </div>
+    <div className="space-y-2">
+      <Label htmlFor="scheduler-start" className="text-slate-200">
+        Start Date ({timeZone}, optional)
+      </Label>
+      <Input
+        id="scheduler-start"
+        type="datetime-local"
+        value={options.startDate ?? ""}
+        onChange={(e) => onChange({ ...options, startDate: e.target.value || undefined })}
+        className={inputClassName}
+      />
+    </div>
+    <div className="space-y-2">
+      <Label htmlFor="scheduler-end" className="text-slate-200">
+        End Date ({timeZone}, optional)
+      </Label>
+      <Input
+        id="scheduler-end"
+        type="datetime-local"
+        value={options.endDate ?? ""}
+        onChange={(e) => onChange({ ...options, endDate: e.target.value || undefined })}
+        className={inputClassName}
+      />
+    </div>
+  </div>
+);
+
+export default SchedulerOptionsForm;
@@ -0,0 +1,84 @@
+import { useMemo, useState } from "react";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { toCdk, toCloudFormationTemplate, toSamTemplate, toTerraform, type CloudFormationOptions } from "@/lib/cron";
+
+type TemplateFormat = "cloudformation-yaml" | "cloudformation-json" | "sam" | "terraform" | "cdk";
+
+const TEMPLATE_FORMATS: Record<TemplateFormat, { name: string; copied: string }> = {
+  "cloudformation-yaml": { name: "CloudFormation YAML", copied: "CloudFormation template copied to clipboard" },
+  "cloudformation-json": { name: "CloudFormation JSON", copied: "CloudFormation template copied to clipboard" },
+  sam: { name: "SAM", copied: "SAM template copied to clipboard" },
+  terraform: { name: "Terraform", copied: "Terraform configuration copied to clipboard" },
+  cdk: { name: "CDK", copied: "CDK code copied to clipboard" },
+};
+
+const renderTemplate = (format: TemplateFormat, rules: string[], options: CloudFormationOptions) => {
+  switch (format) {
+    case "sam":
+      return toSamTemplate(rules, options);
+    case "terraform":
+      return toTerraform(rules, options);
+    case "cdk":
+      return toCdk(rules, options);
+    default:
+      return toCloudFormationTemplate(rules, { ...options, format: format === "cloudformation-json" ? "json" : "yaml" });
+  }
+};
+
+interface TemplateExportProps {
+  /** EventBridge expressions without the `cron(...)` wrapper. */
+  rules: string[];
+  options: CloudFormationOptions;
+  onCopy: (text: string, message: string) => void;
+}
+
+const TemplateExport = ({ rules, options, onCopy }: TemplateExportProps) => {
+  const [format, setFormat] = useState<TemplateFormat>("cloudformation-yaml");
+
+  const template = useMemo(() => renderTemplate(format, rules, options), [rules, options, format]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <Label htmlFor="template-export" className="text-slate-200">
+          Infrastructure as Code
+        </Label>
+        <Tabs value={format} onValueChange={(value) => setFormat(value as TemplateFormat)}>
+          <TabsList className="bg-slate-700 flex-wrap h-auto">
+            {Object.entries(TEMPLATE_FORMATS).map(([value, { name }]) => (
+              <TabsTrigger key={value} value={value}>
+                {name}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </div>
+      <div className="relative">
+        <Textarea
+          id="template-export"
+          value={template}
+          readOnly
+          rows={Math.min(template.split("\n").length, 24)}
+          className="bg-slate-700 border-slate-600 text-white font-mono text-sm pr-12"
+        />
+        <Button
+          size="sm"
+          variant="ghost"
+          className="absolute right-2 top-2 text-slate-400 hover:text-white"
+          onClick={() => onCopy(template, TEMPLATE_FORMATS[format].copied)}
+        >
+          <Copy className="w-4 h-4" />
+        </Button>
+      </div>
+      <p className="text-sm text-slate-400">
+        One resource per rule; replace the target placeholders (and, for CDK, handler) before deploying
+      </p>
+    </div>
+  );
+};
+
+export default TemplateExport;
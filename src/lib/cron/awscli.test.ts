@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { toAwsCliCommands } from "./awscli";
+
+// Described as "At :00, :05, ... Monday through Friday", 64 characters once dashed
+const LONG_RULE = "0,5,10,15,20,25,30,35,40,45 9 ? * MON-FRI *";
+
+const flags = (commands: string, flag: string) =>
+  [...commands.matchAll(new RegExp(`^\\s+${flag} (\\S+)`, "gm"))].map(([, value]) => value);
+
+describe("toAwsCliCommands names", () => {
+  it("keeps numbered rule names within 64 characters", () => {
+    const commands = toAwsCliCommands([LONG_RULE, LONG_RULE]);
+    const [first, second] = flags(commands, "--name");
+    expect(first).toHaveLength(64);
+    expect(second).toBe(`${first.slice(0, 62)}-2`);
+    expect(flags(commands, "--rule")).toEqual([first, second]);
+  });
+
+  it("keeps numbered schedule names within 64 characters", () => {
+    const [, second] = flags(toAwsCliCommands([LONG_RULE, LONG_RULE], { target: "scheduler" }), "--name");
+    expect(second).toHaveLength(64);
+    expect(second).toMatch(/-2$/);
+  });
+});
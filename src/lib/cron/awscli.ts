@@ -0,0 +1,71 @@
+import type { CloudFormationOptions } from "./cloudformation";
+import { describeRule, toResourceName, uniqueNames } from "./naming";
+
+export type AwsCliOptions = Pick<CloudFormationOptions, "target" | "timeZone">;
+
+// Words made only of these characters mean the same to every POSIX shell
+const SHELL_SAFE = /^[\w@%+=:,./-]+$/;
+
+// Single quotes keep `*`, `?` and `$` literal; a single quote inside the word
+// closes the quoting, is escaped and reopens it
+const shellQuote = (value: string) => (SHELL_SAFE.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`);
+
+// One argument per line, continued with backslashes
+const command = (words: string[], args: [string, string | undefined][]) =>
+  [
+    words.join(" "),
+    ...args.filter(([, value]) => value !== undefined).map(([flag, value]) => `  ${flag} ${shellQuote(value)}`),
+  ].join(" \\\n");
+
+const ruleCommands = (name: string, rule: string, description: string) =>
+  [
+    command(
+      ["aws", "events", "put-rule"],
+      [
+        ["--name", name],
+        ["--schedule-expression", `cron(${rule})`],
+        ["--description", description],
+        ["--state", "ENABLED"],
+      ]
+    ),
+    command(
+      ["aws", "events", "put-targets"],
+      [
+        ["--rule", name],
+        ["--targets", "Id=Target,Arn=<target-arn>"],
+      ]
+    ),
+  ].join("\n\n");
+
+const scheduleCommand = (name: string, rule: string, description: string, timeZone?: string) =>
+  command(
+    ["aws", "scheduler", "create-schedule"],
+    [
+      ["--name", name],
+      ["--schedule-expression", `cron(${rule})`],
+      ["--schedule-expression-timezone", timeZone && timeZone !== "UTC" ? timeZone : undefined],
+      ["--description", description],
+      ["--flexible-time-window", "Mode=OFF"],
+      ["--target", JSON.stringify({ Arn: "<target-arn>", RoleArn: "<scheduler-execution-role-arn>" })],
+    ]
+  );
+
+/**
+ * Copy-pasteable AWS CLI commands: `aws events put-rule` plus `put-targets`
+ * (or, for Scheduler, `aws scheduler create-schedule`) per EventBridge
+ * expression, quoted for POSIX shells. Target ARNs are placeholders to fill in.
+ */
+export function toAwsCliCommands(rules: string[], { target, timeZone }: AwsCliOptions = {}): string {
+  const descriptions = rules.map(describeRule);
+  const names = uniqueNames(
+    descriptions.map((description) => toResourceName(description).replace(/_/g, "-")),
+    "-"
+  );
+  return rules
+    .map((rule, index) =>
+      target === "scheduler"
+        ? scheduleCommand(names[index], rule, descriptions[index], timeZone)
+        : ruleCommands(names[index], rule, descriptions[index])
+    )
+    .join("\n\n");
+}
@@ -0,0 +1,52 @@
+import type { CronDiagnostic } from "./types";
+
+export interface AzureTimerOptions {
+  /** Binding name, i.e. the timer parameter of the function. */
+  name?: string;
+}
+
+export interface AzureTimerConversion {
+  /** Six-field NCRONTAB schedules, one per crontab line. */
+  schedules: string[];
+  /** `function.json` contents, or an array of them when there are several schedules. */
+  functionJson: string;
+  diagnostics: CronDiagnostic[];
+}
+
+/**
+ * Azure Functions timer triggers for the given crontab lines. NCRONTAB adds a
+ * leading seconds field and, unlike Vixie cron, requires both day fields to
+ * match; crontab lines converted from EventBridge never restrict both, so
+ * only the seconds need adding.
+ */
+export function toAzureTimerTriggers(
+  lines: string[],
+  { name = "timer" }: AzureTimerOptions = {}
+): AzureTimerConversion {
+  const schedules = lines.map((line) => `0 ${line}`);
+  const functions = schedules.map((schedule) => ({
+    bindings: [{ name, type: "timerTrigger", direction: "in", schedule }],
+  }));
+
+  const diagnostics: CronDiagnostic[] = [
+    {
+      severity: "info",
+      code: "azure-time-zone",
+      message:
+        "Azure evaluates NCRONTAB schedules in UTC unless the function app sets WEBSITE_TIME_ZONE, which Linux Consumption plans do not support. Leave it unset to keep the EventBridge times.",
+    },
+  ];
+  if (schedules.length > 1) {
+    diagnostics.push({
+      severity: "warning",
+      code: "azure-single-schedule",
+      message: `A timer trigger takes a single schedule, so the ${schedules.length} schedules need one function each.`,
+    });
+  }
+
+  return {
+    schedules,
+    functionJson: JSON.stringify(functions.length === 1 ? functions[0] : functions, null, 2),
+    diagnostics,
+  };
+}
@@ -0,0 +1,119 @@
+import type { CloudFormationOptions } from "./cloudformation";
+import { WEEKDAY_NAMES } from "./fields";
+import { describeRule, toLogicalId, uniqueNames } from "./naming";
+import { parseCron } from "./parser";
+import type { CronExpression, CronField, CronFieldName, CronToken, ValueToken } from "./types";
+
+/** Object form of `events.Schedule.cron()` and `scheduler.ScheduleExpression.cron()`. */
+export type CdkCronOptions = Partial<Record<"minute" | "hour" | "day" | "month" | "weekDay" | "year", string>>;
+
+export type CdkOptions = Pick<CloudFormationOptions, "target" | "timeZone">;
+
+const CDK_FIELDS: [keyof CdkCronOptions, CronFieldName][] = [
+  ["minute", "minute"],
+  ["hour", "hour"],
+  ["day", "dayOfMonth"],
+  ["month", "month"],
+  ["weekDay", "dayOfWeek"],
+  ["year", "year"],
+];
+
+const formatValue = (token: ValueToken) => (token.name ? token.name.toUpperCase() : String(token.value));
+
+// Weekdays read better as names; EventBridge numbers them from 1 = Sunday
+const formatWeekday = (token: ValueToken) => WEEKDAY_NAMES[token.value - 1] ?? String(token.value);
+
+const formatToken = (token: CronToken, value: (token: ValueToken) => string): string => {
+  switch (token.kind) {
+    case "wildcard":
+      return "*";
+    case "noSpecific":
+      return "?";
+    case "value":
+      return value(token);
+    case "range":
+      return `${value(token.start)}-${value(token.end)}`;
+    case "step":
+      return `${formatToken(token.base, formatValue)}/${token.step}`;
+    case "last":
+      return token.offset ? `L-${token.offset}` : "L";
+    case "nearestWeekday":
+      return `${token.day === "last" ? "L" : token.day}W`;
+    case "lastWeekday":
+      return `${token.weekday.value}L`;
+    case "nthWeekday":
+      return `${token.weekday.value}#${token.nth}`;
+  }
+};
+
+// CDK fills in `*` and `?` itself, choosing `?` for whichever day field is unset
+const isDefault = (field?: CronField) =>
+  !field || (field.items.length === 1 && (field.items[0].kind === "wildcard" || field.items[0].kind === "noSpecific"));
+
+/**
+ * Cron options for a parsed EventBridge expression, built from its tokens:
+ * only restricted fields are set, and weekdays are spelled as names.
+ */
+export function toCdkCronOptions(expression: CronExpression): CdkCronOptions {
+  return Object.fromEntries(
+    CDK_FIELDS.filter(([, name]) => !isDefault(expression[name])).map(([option, name]) => [
+      option,
+      expression[name].items
+        .map((token) => formatToken(token, name === "dayOfWeek" ? formatWeekday : formatValue))
+        .join(","),
+    ])
+  );
+}
+
+const formatOptions = (options: CdkCronOptions, timeZone?: string) => {
+  const entries = Object.entries(options).map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  if (timeZone && timeZone !== "UTC") entries.push(`timeZone: TimeZone.of(${JSON.stringify(timeZone)})`);
+  return `{ ${entries.join(", ")} }`;
+};
+
+const IMPORTS = {
+  rule: [
+    'import * as events from "aws-cdk-lib/aws-events";',
+    'import * as targets from "aws-cdk-lib/aws-events-targets";',
+  ],
+  scheduler: [
+    'import * as scheduler from "aws-cdk-lib/aws-scheduler";',
+    'import * as targets from "aws-cdk-lib/aws-scheduler-targets";',
+  ],
+};
+
+/**
+ * CDK (TypeScript) constructs with one `events.Rule` (or, for Scheduler, one
+ * `scheduler.Schedule`) per EventBridge expression, for use inside a stack.
+ * `handler` stands for the function to invoke.
+ */
+export function toCdk(rules: string[], { target = "rule", timeZone }: CdkOptions = {}): string {
+  const descriptions = rules.map(describeRule);
+  const ids = uniqueNames(descriptions.map((description) => toLogicalId(description)));
+
+  const constructs = rules.map((rule, index) => {
+    const { expression } = parseCron(rule, "eventbridge");
+    const options = expression ? toCdkCronOptions(expression) : {};
+    const lines =
+      target === "scheduler"
+        ? [
+            `new scheduler.Schedule(this, "${ids[index]}", {`,
+            `  description: ${JSON.stringify(descriptions[index])},`,
+            `  schedule: scheduler.ScheduleExpression.cron(${formatOptions(options, timeZone)}),`,
+            "  target: new targets.LambdaInvoke(handler),",
+            "});",
+          ]
+        : [
+            `new events.Rule(this, "${ids[index]}", {`,
+            `  description: ${JSON.stringify(descriptions[index])},`,
+            `  schedule: events.Schedule.cron(${formatOptions(options)}),`,
+            "  targets: [new targets.LambdaFunction(handler)],",
+            "});",
+          ];
+    return lines.join("\n");
+  });
+
+  const zoned = target === "scheduler" && timeZone && timeZone !== "UTC";
+  const imports = zoned ? ['import { TimeZone } from "aws-cdk-lib";', ...IMPORTS[target]] : IMPORTS[target];
+  return [...imports, "", constructs.join("\n\n")].join("\n");
+}
@@ -0,0 +1,134 @@
+import { describeRule, toLogicalId, uniqueNames } from "./naming";
+
+export interface CloudFormationOptions {
+  /** Template description, e.g. the description of the source schedule. */
+  description?: string;
+  /** `rule` emits classic EventBridge rules, `scheduler` EventBridge Scheduler schedules. */
+  target?: "rule" | "scheduler";
+  /** `ScheduleExpressionTimezone` of Scheduler schedules; rules always run in UTC. */
+  timeZone?: string;
+  format?: "yaml" | "json";
+}
+
+type TemplateValue = string | number | boolean | TemplateValue[] | { [key: string]: TemplateValue };
+
+// Strings are double-quoted whenever YAML could read them as something else,
+// including the YAML 1.1 booleans such as OFF
+const PLAIN_STRING = /^[A-Za-z][\w.\-/]*(?:::[\w.\-/]+)*$/;
+const YAML_KEYWORDS = /^(?:y|yes|n|no|true|false|on|off|null)$/i;
+
+const yamlScalar = (value: string | number | boolean) =>
+  typeof value === "string" && (!PLAIN_STRING.test(value) || YAML_KEYWORDS.test(value))
+    ? JSON.stringify(value)
+    : String(value);
+
+const toYaml = (value: TemplateValue, indent = ""): string[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      const [first, ...rest] = toYaml(item, `${indent}  `);
+      return [`${indent}- ${first.trimStart()}`, ...rest];
+    });
+  }
+  if (typeof value === "object") {
+    return Object.entries(value).flatMap(([key, item]) =>
+      typeof item === "object"
+        ? [`${indent}${key}:`, ...toYaml(item, `${indent}  `)]
+        : [`${indent}${key}: ${yamlScalar(item)}`]
+    );
+  }
+  return [`${indent}${yamlScalar(value)}`];
+};
+
+const serialize = (template: TemplateValue, format: CloudFormationOptions["format"]) =>
+  format === "json" ? JSON.stringify(template, null, 2) : toYaml(template).join("\n");
+
+const scheduleProperties = (rule: string, description: string, { target, timeZone }: CloudFormationOptions) =>
+  target === "scheduler"
+    ? {
+        Description: description,
+        ScheduleExpression: `cron(${rule})`,
+        ...(timeZone && timeZone !== "UTC" ? { ScheduleExpressionTimezone: timeZone } : {}),
+        FlexibleTimeWindow: { Mode: "OFF" },
+        State: "ENABLED",
+        Target: { Arn: "<target-arn>", RoleArn: "<scheduler-execution-role-arn>" },
+      }
+    : {
+        Description: description,
+        ScheduleExpression: `cron(${rule})`,
+        State: "ENABLED",
+        Targets: [{ Arn: "<target-arn>", Id: "Target" }],
+      };
+
+/**
+ * CloudFormation template with one `AWS::Events::Rule` (or, for Scheduler,
+ * `AWS::Scheduler::Schedule`) per EventBridge expression. The targets are
+ * placeholders to fill in.
+ */
+export function toCloudFormationTemplate(rules: string[], options: CloudFormationOptions = {}): string {
+  const { description, target, format } = options;
+  const type = target === "scheduler" ? "AWS::Scheduler::Schedule" : "AWS::Events::Rule";
+  const descriptions = rules.map(describeRule);
+  const ids = uniqueNames(descriptions.map((description) => toLogicalId(description)));
+  const resources = Object.fromEntries(
+    rules.map((rule, index) => [
+      `${ids[index]}${target === "scheduler" ? "Schedule" : "Rule"}`,
+      { Type: type, Properties: scheduleProperties(rule, descriptions[index], options) },
+    ])
+  );
+
+  return serialize(
+    {
+      AWSTemplateFormatVersion: "2010-09-09",
+      ...(description ? { Description: description } : {}),
+      Resources: resources,
+    },
+    format
+  );
+}
+
+/**
+ * SAM template with a placeholder function that has one `Schedule` event (or,
+ * for Scheduler, `ScheduleV2` event) per EventBridge expression.
+ */
+export function toSamTemplate(rules: string[], options: CloudFormationOptions = {}): string {
+  const { description, target, timeZone, format } = options;
+  const descriptions = rules.map(describeRule);
+  const ids = uniqueNames(descriptions.map((description) => toLogicalId(description)));
+  const events = Object.fromEntries(
+    rules.map((rule, index) => [
+      ids[index],
+      target === "scheduler"
+        ? {
+            Type: "ScheduleV2",
+            Properties: {
+              ScheduleExpression: `cron(${rule})`,
+              ...(timeZone && timeZone !== "UTC" ? { ScheduleExpressionTimezone: timeZone } : {}),
+              Description: descriptions[index],
+            },
+          }
+        : {
+            Type: "Schedule",
+            Properties: {
+              Schedule: `cron(${rule})`,
+              Description: descriptions[index],
+              Enabled: true,
+            },
+          },
+    ])
+  );
+
+  return serialize(
+    {
+      AWSTemplateFormatVersion: "2010-09-09",
+      Transform: "AWS::Serverless-2016-10-31",
+      ...(description ? { Description: description } : {}),
+      Resources: {
+        ScheduledFunction: {
+          Type: "AWS::Serverless::Function",
+          Properties: { Handler: "index.handler", Runtime: "nodejs20.x", CodeUri: "src/", Events: events },
+        },
+      },
+    },
+    format
+  );
+}
@@ -0,0 +1,184 @@
+import { toEventBridge, type EventBridgeOptions } from "./eventbridge";
+import { parseCron } from "./parser";
+import { toCommandTarget, type CommandTargetKind, type EventBridgeTarget } from "./targets";
+import type { CronDiagnostic, CronExpression } from "./types";
+import { hasErrors, validateCron } from "./validator";
+
+/**
+ * How well an entry survived conversion: `clean` is one equivalent rule,
+ * `split` several rules that together are equivalent, `lossy` rules that
+ * differ from the original somehow (see the warnings), and `unsupported` no
+ * rules at all.
+ */
+export type CrontabEntryStatus = "clean" | "split" | "lossy" | "unsupported";
+
+export interface CrontabEntry {
+  /** 1-based line number in the file. */
+  line: number;
+  /** The five schedule fields, or a macro such as `@daily`. */
+  schedule: string;
+  /** User column of system crontabs such as /etc/crontab. */
+  user?: string;
+  /** Command up to the first unescaped `%`, with `\%` decoded. */
+  command: string;
+  /** Standard input given after the first `%`, with later `%` as newlines. */
+  input?: string;
+  /** Zone the schedule runs in: the `CRON_TZ` in effect, or the default. */
+  timeZone: string;
+  expression?: CronExpression;
+  rules: string[];
+  /** Target that runs the command, when `options.commandTarget` is set. */
+  target?: EventBridgeTarget;
+  status: CrontabEntryStatus;
+  diagnostics: CronDiagnostic[];
+}
+
+export interface CrontabOptions extends EventBridgeOptions {
+  /** Parse a system crontab, where a user column follows the schedule. */
+  system?: boolean;
+  /** Turn each command into a target stub of this kind. */
+  commandTarget?: CommandTargetKind;
+}
+
+export interface CrontabReport {
+  entries: CrontabEntry[];
+  /** Variables assigned in the file, with the last value each was given. */
+  environment: Record<string, string>;
+}
+
+/** Shape accepted by `aws events put-rule`, with the rule's targets alongside. */
+export interface CrontabRuleDefinition {
+  Name: string;
+  Description: string;
+  ScheduleExpression: string;
+  State: "ENABLED";
+  Targets: EventBridgeTarget[];
+}
+
+// `NAME = value`; entries start with a digit, `*` or `@`, so they never match
+const ENVIRONMENT_LINE = /^([A-Za-z_]\w*)\s*=\s*(.*)$/;
+
+const unquote = (value: string) => (/^(["']).*\1$/.test(value) ? value.slice(1, -1) : value);
+
+// In crontab `%` ends the command and the rest is fed to it on stdin
+const splitPercent = (text: string) => {
+  const parts = [""];
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === "\\" && text[index + 1] === "%") {
+      parts[parts.length - 1] += "%";
+      index++;
+    } else if (text[index] === "%") {
+      parts.push("");
+    } else {
+      parts[parts.length - 1] += text[index];
+    }
+  }
+  return { command: parts[0].trim(), input: parts.length > 1 ? parts.slice(1).join("\n") : undefined };
+};
+
+const statusOf = (rules: string[], diagnostics: CronDiagnostic[]): CrontabEntryStatus => {
+  if (!rules.length || hasErrors(diagnostics)) return "unsupported";
+  if (diagnostics.some((diagnostic) => diagnostic.severity === "warning")) return "lossy";
+  return rules.length > 1 ? "split" : "clean";
+};
+
+const parseEntry = (
+  text: string,
+  line: number,
+  environment: Record<string, string>,
+  options: CrontabOptions
+): CrontabEntry => {
+  const fields = text.startsWith("@") ? 1 : 5;
+  const columns = fields + (options.system ? 1 : 0);
+  const words = [...text.matchAll(/\S+/g)];
+  const schedule = words
+    .slice(0, fields)
+    .map(([word]) => word)
+    .join(" ");
+  const user = options.system ? words[fields]?.[0] : undefined;
+  const rest = words.length > columns ? text.slice(words[columns].index) : "";
+  const { command, input } = splitPercent(rest);
+  const timeZone = environment.CRON_TZ || options.timeZone || "UTC";
+  const target =
+    command && options.commandTarget
+      ? toCommandTarget(options.commandTarget, command, { input, environment })
+      : undefined;
+  const entry = { line, schedule, user, command, input, timeZone, target };
+
+  if (!command) {
+    const diagnostic: CronDiagnostic = {
+      severity: "error",
+      code: "missing-command",
+      message: `Expected ${fields === 1 ? "a macro" : "five schedule fields"}${
+        options.system ? ", a user" : ""
+      } and a command`,
+    };
+    return { ...entry, rules: [], status: "unsupported", diagnostics: [diagnostic] };
+  }
+
+  const diagnostics = validateCron(schedule);
+  if (input !== undefined && !target) {
+    diagnostics.push({
+      severity: "info",
+      code: "command-input",
+      message:
+        "The % in the command passes the text after it to the command on standard input. EventBridge targets have no standard input, so hand that text over another way, e.g. in the target input.",
+    });
+  }
+
+  const { expression } = parseCron(schedule);
+  if (!expression || hasErrors(diagnostics)) {
+    return { ...entry, rules: [], status: "unsupported", diagnostics };
+  }
+
+  const conversion = toEventBridge(expression, { ...options, timeZone });
+  diagnostics.push(...conversion.diagnostics);
+  const status = statusOf(conversion.rules, diagnostics);
+  return { ...entry, expression, rules: conversion.rules, status, diagnostics };
+};
+
+/**
+ * Converts every entry of a crontab file to EventBridge rules. Blank lines
+ * and comments are skipped, variable assignments are collected, and
+ * `CRON_TZ` changes the zone of the entries that follow it, as in cronie.
+ * Entries without a `CRON_TZ` run in `options.timeZone` (UTC by default).
+ */
+export function parseCrontab(text: string, options: CrontabOptions = {}): CrontabReport {
+  const entries: CrontabEntry[] = [];
+  const environment: Record<string, string> = {};
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith("#")) return;
+
+    const assignment = ENVIRONMENT_LINE.exec(trimmed);
+    if (assignment) {
+      environment[assignment[1]] = unquote(assignment[2].trim());
+      return;
+    }
+
+    // Later assignments only apply to the entries after them
+    entries.push(parseEntry(trimmed, index + 1, { ...environment }, options));
+  });
+
+  return { entries, environment };
+}
+
+/**
+ * Rule definitions for every converted entry, named after its line, with the
+ * entry's target when there is one. Split entries get one definition per rule.
+ */
+export function toRuleDefinitions(entries: CrontabEntry[]): CrontabRuleDefinition[] {
+  return entries.flatMap((entry) =>
+    entry.status === "unsupported"
+      ? []
+      : entry.rules.map((rule, index) => ({
+          Name: `crontab-line-${entry.line}${entry.rules.length > 1 ? `-${index + 1}` : ""}`,
+          // Rule descriptions are limited to 512 characters
+          Description: entry.command.slice(0, 512),
+          ScheduleExpression: `cron(${rule})`,
+          State: "ENABLED" as const,
+          Targets: entry.target ? [entry.target] : [],
+        }))
+  );
+}
@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { describeCron } from "./describe";
+import { parseCron } from "./parser";
+
+describe("describeCron in Portuguese", () => {
+  it.each([
+    ["0 9 * * 1,3", "Às 09:00, às segundas-feiras e quartas-feiras"],
+    ["0 9 * * 6,0", "Às 09:00, aos sábados e domingos"],
+    ["0 9 * * 0,1", "Às 09:00, aos domingos e às segundas-feiras"],
+    ["0 9 * * 1-3,6", "Às 09:00, de segunda-feira a quarta-feira e aos sábados"],
+    ["0 9 1 * 1,3", "Às 09:00, no dia 1 do mês ou às segundas-feiras e quartas-feiras"],
+  ])("%s -> %s", (source, description) => {
+    expect(describeCron(parseCron(source).expression, "pt")).toBe(description);
+  });
+});
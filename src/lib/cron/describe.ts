@@ -0,0 +1,217 @@
+import { getFieldSpec, matchesEitherDay, weekdayIndex } from "./fields";
+import { DESCRIPTION_LOCALES, type DescriptionLanguage, type DescriptionLocale, type DescriptionUnit } from "./locales";
+import type { RateExpression } from "./rate";
+import type { CronExpression, CronField, CronToken, StepToken, ValueToken } from "./types";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+const time = (hour: number, minute: number) => `${pad(hour)}:${pad(minute)}`;
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const isUnrestricted = (field?: CronField) =>
+  !field || field.items.every((token) => token.kind === "wildcard" || token.kind === "noSpecific");
+
+const plainValues = (field: CronField) =>
+  field.items.every((token) => token.kind === "value")
+    ? (field.items as ValueToken[]).map((token) => token.value).sort((a, b) => a - b)
+    : undefined;
+
+type Namer = (value: number) => string;
+
+interface Context {
+  expression: CronExpression;
+  locale: DescriptionLocale;
+  weekday: Namer;
+}
+
+// Values and ranges read as one list ("1, 15 and 20 through 25"); other tokens get a phrase of their own
+const splitTokens = ({ locale }: Context, field: CronField, name: Namer) => {
+  const listed: string[] = [];
+  const others: CronToken[] = [];
+  for (const token of field.items) {
+    if (token.kind === "value") listed.push(name(token.value));
+    else if (token.kind === "range") listed.push(locale.range(name(token.start.value), name(token.end.value)));
+    else others.push(token);
+  }
+  return { listed, others };
+};
+
+// `min` is the field's first value, where `n/step` is the same as `*/step`
+const describeStep = (
+  { locale }: Context,
+  { base, step }: StepToken,
+  unit: DescriptionUnit,
+  name: Namer,
+  min: number
+) => {
+  const every = locale.every(step, unit);
+  if (base.kind === "range") return locale.stepBetween(every, name(base.start.value), name(base.end.value));
+  if (base.kind === "value" && base.value !== min) return locale.stepFrom(every, name(base.value));
+  return every;
+};
+
+// Quartz and Spring only; `0` is the default and is left out
+const describeSecond = (context: Context, field: CronField) => {
+  const { locale } = context;
+  if (isUnrestricted(field)) return locale.every(1, "second");
+  const { listed, others } = splitTokens(context, field, String);
+  const parts: string[] = [];
+  if (listed.length) {
+    parts.push(locale.atSeconds(locale.list(listed), listed.length > 1 || field.items[0].kind === "range"));
+  }
+  for (const token of others) {
+    if (token.kind === "step") parts.push(describeStep(context, token, "second", String, 0));
+  }
+  return locale.list(parts);
+};
+
+const describeMinuteAndHour = (context: Context) => {
+  const { locale } = context;
+  const { minute, hour } = context.expression;
+  const minutes = plainValues(minute);
+  const hours = plainValues(hour);
+  if (minutes && hours && minutes.length * hours.length <= 4) {
+    return locale.at(locale.list(hours.flatMap((h) => minutes.map((m) => time(h, m)))));
+  }
+
+  const parts: string[] = [];
+  if (isUnrestricted(minute)) {
+    parts.push(locale.everyMinute);
+  } else {
+    const { listed, others } = splitTokens(context, minute, locale.minute);
+    if (listed.length) {
+      const plural = listed.length > 1 || minute.items[0].kind === "range";
+      parts.push(locale.atMinutes(locale.list(listed), plural, isUnrestricted(hour)));
+    }
+    for (const token of others) {
+      if (token.kind === "step") parts.push(describeStep(context, token, "minute", locale.minute, 0));
+    }
+  }
+
+  if (!isUnrestricted(hour)) {
+    const values = hour.items.filter((token): token is ValueToken => token.kind === "value");
+    if (values.length) {
+      parts.push(locale.duringHours(locale.list(values.map((token) => locale.hour(token.value))), values.length > 1));
+    }
+    for (const token of hour.items) {
+      if (token.kind === "range") {
+        parts.push(locale.betweenHours(time(token.start.value, 0), time(token.end.value, 59)));
+      } else if (token.kind === "step") {
+        parts.push(describeStep(context, token, "hour", (value) => time(value, 0), 0));
+      }
+    }
+  }
+  return parts.join(locale.separator);
+};
+
+const describeDayOfMonth = (context: Context) => {
+  const { locale } = context;
+  const field = context.expression.dayOfMonth;
+  const { listed, others } = splitTokens(context, field, locale.day);
+  const parts: string[] = [];
+  if (listed.length) {
+    const plural = listed.length > 1 || field.items.some((token) => token.kind === "range");
+    parts.push(locale.daysOfMonth(locale.list(listed), plural));
+  }
+  for (const token of others) {
+    if (token.kind === "step") {
+      parts.push(describeStep(context, token, "day", locale.day, 1));
+    } else if (token.kind === "last") {
+      parts.push(token.offset ? locale.daysBeforeLastDay(token.offset) : locale.lastDayOfMonth);
+    } else if (token.kind === "nearestWeekday") {
+      parts.push(token.day === "last" ? locale.lastWeekdayOfMonth : locale.nearestWeekday(token.day));
+    }
+  }
+  return locale.list(parts);
+};
+
+// `bare` leaves out "on" so the phrase can follow "if it is"
+const describeDayOfWeek = (context: Context, bare = false) => {
+  const { locale, weekday, expression } = context;
+  const field = expression.dayOfWeek;
+  const { listed, others } = splitTokens(context, field, weekday);
+  const parts: string[] = [];
+  if (listed.length) {
+    // "Monday through Friday" reads fine on its own; lists of days need "on"
+    const lone = field.items.length === 1 && field.items[0].kind === "range";
+    parts.push(bare || lone ? locale.list(listed) : locale.onWeekdays(listed));
+  }
+  for (const token of others) {
+    if (token.kind === "step") {
+      const min = getFieldSpec(expression.dialect, "dayOfWeek")?.min ?? 0;
+      parts.push(describeStep(context, token, "dayOfWeek", weekday, min));
+    } else if (token.kind === "last") {
+      // A bare L in day-of-week is the last day of the week
+      const saturday = locale.weekdays[6];
+      parts.push(bare ? saturday : locale.onWeekdays([saturday]));
+    } else if (token.kind === "lastWeekday") {
+      parts.push(locale.lastWeekdayOf(weekday(token.weekday.value)));
+    } else if (token.kind === "nthWeekday") {
+      parts.push(locale.nthWeekdayOf(token.nth, weekday(token.weekday.value)));
+    }
+  }
+  return locale.list(parts);
+};
+
+const describeDays = (context: Context) => {
+  const { dayOfMonth, dayOfWeek, dialect } = context.expression;
+  if (isUnrestricted(dayOfWeek)) return isUnrestricted(dayOfMonth) ? "" : describeDayOfMonth(context);
+  if (isUnrestricted(dayOfMonth)) return describeDayOfWeek(context);
+
+  // Vixie cron matches either day field, unless one of them starts with `*`
+  const starred = dayOfMonth.source.startsWith("*") || dayOfWeek.source.startsWith("*");
+  return matchesEitherDay(dialect) && !starred
+    ? context.locale.either(describeDayOfMonth(context), describeDayOfWeek(context))
+    : context.locale.both(describeDayOfMonth(context), describeDayOfWeek(context, true));
+};
+
+const describeMonth = (context: Context) => {
+  const { locale } = context;
+  const name: Namer = (value) => locale.months[value - 1];
+  const { listed, others } = splitTokens(context, context.expression.month, name);
+  const parts = listed.length ? [locale.inMonths(locale.list(listed))] : [];
+  for (const token of others) {
+    if (token.kind === "step") parts.push(describeStep(context, token, "month", name, 1));
+  }
+  return locale.list(parts);
+};
+
+const describeYear = (context: Context, field: CronField) => {
+  const { locale } = context;
+  const { listed, others } = splitTokens(context, field, locale.year);
+  const parts = listed.length ? [locale.inYears(locale.list(listed))] : [];
+  for (const token of others) {
+    if (token.kind === "step") parts.push(describeStep(context, token, "year", locale.year, 1970));
+  }
+  return locale.list(parts);
+};
+
+/**
+ * Plain-language description of a parsed expression in any dialect, e.g.
+ * "At 18:00, Monday through Friday". Times are in the expression's own zone.
+ */
+export function describeCron(expression: CronExpression, language: DescriptionLanguage = "en"): string {
+  const locale = DESCRIPTION_LOCALES[language];
+  const context: Context = {
+    expression,
+    locale,
+    weekday: (value) => locale.weekdays[weekdayIndex(expression.dialect, value)],
+  };
+  const { second, month, year } = expression;
+  const seconds = !second || plainValues(second)?.join() === "0" ? "" : describeSecond(context, second);
+  const times = describeMinuteAndHour(context);
+  const parts = [
+    seconds,
+    // "Every 30 seconds" already implies every minute
+    seconds && times === locale.everyMinute ? "" : times,
+    describeDays(context),
+    isUnrestricted(month) ? "" : describeMonth(context),
+    !year || isUnrestricted(year) ? "" : describeYear(context, year),
+  ];
+  return capitalize(parts.filter(Boolean).join(locale.separator));
+}
+
+/** Description of a `rate()` expression, e.g. "Every 5 minutes". */
+export function describeRate({ value, unit }: RateExpression, language: DescriptionLanguage = "en"): string {
+  return capitalize(DESCRIPTION_LOCALES[language].every(value, unit));
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { findDstTransitions, splitForDst } from "./dst";
+import { parseCron } from "./parser";
+import { nextRuns } from "./schedule";
+
+const AT = new Date("2025-01-01T00:00:00Z");
+
+describe("findDstTransitions", () => {
+  it("finds both switches of a year", () => {
+    expect(findDstTransitions("Europe/Berlin", 2025)).toEqual([
+      { date: "2025-03-30", at: new Date("2025-03-30T01:00:00Z"), fromOffset: 60, toOffset: 120 },
+      { date: "2025-10-26", at: new Date("2025-10-26T01:00:00Z"), fromOffset: 120, toOffset: 60 },
+    ]);
+  });
+});
+
+describe("splitForDst", () => {
+  it("keeps the local time on the reference year's transition days", () => {
+    const { rules, dst } = splitForDst(["0 9 * * ? *"], "Europe/Berlin", AT);
+    const utcRuns = nextRuns(
+      rules.map((rule) => parseCron(rule, "eventbridge").expression),
+      { from: AT, count: 365 }
+    );
+    const localRuns = nextRuns(parseCron("0 9 * * ? *", "eventbridge").expression, {
+      from: AT,
+      count: 365,
+      timeZone: "Europe/Berlin",
+    });
+    expect(utcRuns).toEqual(localRuns);
+    expect(dst.approximateDates.filter((date) => date.startsWith("2025"))).toEqual([]);
+  });
+
+  it("reports later years whose transitions fall on other days", () => {
+    const { dst } = splitForDst(["0 9 * * ? *"], "Europe/Berlin", AT);
+    // 2026 switches on March 29th, a day before the 2025 rules do
+    expect(dst.approximateDates).toContain("2026-03-29");
+  });
+
+  it("reports runs that cross into a month with another offset", () => {
+    // Friday 23:00 in February is Saturday 04:00 UTC, which the March rule covers one hour early
+    const { dst } = splitForDst(["0 23 ? * 2-6 *"], "America/New_York", AT);
+    expect(dst.approximateDates).toContain("2025-02-28");
+  });
+
+  it.each(["0 * * * ? *", "* * * * ? *"])("keeps %s as one rule, since every offset shifts it the same", (rule) => {
+    const { rules, diagnostics, dst } = splitForDst([rule], "Europe/Berlin", AT);
+    expect(rules).toEqual([rule]);
+    expect(diagnostics).toEqual([]);
+    expect(dst.approximateDates).toEqual([]);
+  });
+
+  it("still splits the rules that depend on the offset", () => {
+    const { rules } = splitForDst(["0 * * * ? *", "0 9 * * ? *"], "Europe/Berlin", AT);
+    expect(rules).toContain("0 * * * ? *");
+    expect(rules).toContain("0 8 * 1,2,11,12 ? *");
+  });
+
+  it("uses the UTC year of the reference instant", () => {
+    const { dst, diagnostics } = splitForDst(["0 23 ? * 2-6 *"], "America/New_York", AT);
+    expect(dst.transitions[0].date).toBe("2025-03-09");
+    expect(diagnostics).toContainEqual(
+      expect.objectContaining({ code: "dst-approximate", message: expect.stringContaining("Between 2025 and 2029") })
+    );
+  });
+});
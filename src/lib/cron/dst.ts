@@ -0,0 +1,351 @@
+import { expandField } from "./expand";
+import { getFieldSpec } from "./fields";
+import { compressValues } from "./format";
+import { parseCron } from "./parser";
+import { dayMatcher } from "./schedule";
+import { shiftEventBridgeRule } from "./shift";
+import { formatUtcOffset, getTimeZoneOffset, toZonedParts } from "./timezone";
+import type { CronDiagnostic, CronExpression } from "./types";
+
+export interface DstTransition {
+  /** Local calendar date of the switch, `YYYY-MM-DD`. */
+  date: string;
+  /** Instant at which the offset changes. */
+  at: Date;
+  fromOffset: number;
+  toOffset: number;
+}
+
+export interface DstReport {
+  timeZone: string;
+  /** Transitions in the reference year and the years after it that were checked. */
+  transitions: DstTransition[];
+  /** Local dates (`YYYY-MM-DD`) on which some generated rule fires at the wrong wall-clock time. */
+  approximateDates: string[];
+}
+
+export interface DstSplitResult {
+  rules: string[];
+  diagnostics: CronDiagnostic[];
+  dst: DstReport;
+}
+
+interface MonthSegment {
+  offset: number;
+  from: number;
+  to: number;
+}
+
+// How many years, starting with the reference year, the report covers
+const REPORT_YEARS = 5;
+const MAX_MONTH_LENGTHS = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const isoDate = (year: number, month: number, day: number) =>
+  `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+
+// Local noon is never inside a DST gap, so a single correction is exact
+const noon = (timeZone: string, year: number, month: number, day: number) => {
+  const utcNoon = Date.UTC(year, month - 1, day, 12);
+  return new Date(utcNoon - getTimeZoneOffset(timeZone, new Date(utcNoon)) * 60000);
+};
+
+const noonOffsetCache = new Map<string, number[][]>();
+
+// Offset at local noon of every day of the year, indexed [month - 1][day - 1]
+const noonOffsets = (timeZone: string, year: number): number[][] => {
+  const key = `${timeZone}:${year}`;
+  let offsets = noonOffsetCache.get(key);
+  if (!offsets) {
+    offsets = Array.from({ length: 12 }, (_, index) =>
+      Array.from({ length: daysInMonth(year, index + 1) }, (_, day) =>
+        getTimeZoneOffset(timeZone, noon(timeZone, year, index + 1, day + 1))
+      )
+    );
+    noonOffsetCache.set(key, offsets);
+  }
+  return offsets;
+};
+
+const noonOffset = (timeZone: string, year: number, month: number, day: number) =>
+  noonOffsets(timeZone, year)[month - 1][day - 1];
+
+// Recent splits by zone, year and rules; the crontab import converts every entry again on each edit
+const splitCache = new Map<string, DstSplitResult>();
+const SPLIT_CACHE_SIZE = 200;
+
+const formatMonths = (months: number[]) => (months.length === 12 ? "*" : compressValues(months));
+
+/** Every offset change in the given year, found by comparing consecutive local noons. */
+export function findDstTransitions(timeZone: string, year: number): DstTransition[] {
+  const transitions: DstTransition[] = [];
+  let previous = noon(timeZone, year - 1, 12, 31);
+  let previousOffset = getTimeZoneOffset(timeZone, previous);
+
+  for (let month = 1; month <= 12; month++) {
+    for (let day = 1; day <= daysInMonth(year, month); day++) {
+      const current = noon(timeZone, year, month, day);
+      const offset = noonOffset(timeZone, year, month, day);
+      if (offset !== previousOffset) {
+        // Narrow the switch down to the minute
+        let low = previous.getTime();
+        let high = current.getTime();
+        while (high - low > 60000) {
+          const middle = Math.floor((low + high) / 120000) * 60000;
+          if (getTimeZoneOffset(timeZone, new Date(middle)) === previousOffset) low = middle;
+          else high = middle;
+        }
+        const local = toZonedParts(new Date(high), timeZone);
+        transitions.push({
+          date: isoDate(local.year, local.month, local.day),
+          at: new Date(high),
+          fromOffset: previousOffset,
+          toOffset: offset,
+        });
+      }
+      previous = current;
+      previousOffset = offset;
+    }
+  }
+  return transitions;
+}
+
+// Runs of consecutive days sharing one offset, per month (index 0 = January)
+const monthSegments = (timeZone: string, year: number): MonthSegment[][] =>
+  Array.from({ length: 12 }, (_, index) => {
+    const month = index + 1;
+    const segments: MonthSegment[] = [];
+    for (let day = 1; day <= daysInMonth(year, month); day++) {
+      const offset = noonOffset(timeZone, year, month, day);
+      const last = segments[segments.length - 1];
+      if (last?.offset === offset) last.to = day;
+      else segments.push({ offset, from: day, to: day });
+    }
+    // Let the final segment reach Feb 29 (and L) in every year
+    segments[segments.length - 1].to = MAX_MONTH_LENGTHS[index];
+    return segments;
+  });
+
+const majority = (segments: MonthSegment[]) =>
+  segments.reduce((best, segment) => (segment.to - segment.from > best.to - best.from ? segment : best));
+
+const formatRule = (rule: CronExpression, dayOfMonth: string, month: string, dayOfWeek: string) =>
+  `${rule.minute.source} ${rule.hour.source} ${dayOfMonth} ${month} ${dayOfWeek} ${rule.year?.source ?? "*"}`;
+
+const restrictDays = (rule: CronExpression, segment: MonthSegment): string[] => {
+  const plain = rule.dayOfMonth.items.filter((token) => token.kind !== "last");
+  const days = (expandField({ ...rule.dayOfMonth, items: plain }, getFieldSpec("eventbridge", "dayOfMonth")) ?? []).filter(
+    (day) => day >= segment.from && day <= segment.to
+  );
+
+  const restricted: string[] = [];
+  if (days.length === segment.to - segment.from + 1) {
+    restricted.push(segment.from === segment.to ? String(segment.from) : `${segment.from}-${segment.to}`);
+  } else if (days.length) {
+    restricted.push(compressValues(days));
+  }
+  // EventBridge does not accept L inside a list, so it keeps a rule of its own
+  if (plain.length !== rule.dayOfMonth.items.length && segment.to >= 28) restricted.push("L");
+  return restricted;
+};
+
+// Offset at an instant, read off the transitions so that no Intl call is needed
+const offsetReader = (transitions: DstTransition[]) => (time: number) => {
+  let offset = transitions[0].fromOffset;
+  for (const transition of transitions) {
+    if (transition.at.getTime() > time) break;
+    offset = transition.toOffset;
+  }
+  return offset;
+};
+
+interface RuleTimes {
+  runsOn: (year: number, month: number, day: number) => boolean;
+  /** Minutes after midnight. */
+  times: number[];
+}
+
+const ruleTimes = (rules: string[]): RuleTimes[] =>
+  rules.map((source) => {
+    const rule = parseCron(source, "eventbridge").expression;
+    const minutes = expandField(rule.minute, getFieldSpec("eventbridge", "minute")) ?? [];
+    const hours = expandField(rule.hour, getFieldSpec("eventbridge", "hour")) ?? [];
+    return { runsOn: dayMatcher(rule), times: hours.flatMap((hour) => minutes.map((minute) => hour * 60 + minute)) };
+  });
+
+// Calls `visit` with each minute after midnight at which a rule fires on the date starting at `dayStart`
+const forEachTime = (rules: RuleTimes[], dayStart: number, visit: (minutes: number) => void) => {
+  const date = new Date(dayStart);
+  const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+  for (const { runsOn, times } of rules) {
+    if (runsOn(year, month, day)) times.forEach(visit);
+  }
+};
+
+/**
+ * Local dates on which the UTC rules do not fire at exactly the instants the
+ * local rules would: runs at another wall-clock time, missing or extra runs.
+ * Wall-clock times are resolved like `fromZonedParts`.
+ */
+const findDrift = (localRules: string[], utcRules: string[], transitions: DstTransition[], year: number) => {
+  const offsetAt = offsetReader(transitions);
+  // Most days are nowhere near a transition and need a single lookup
+  const steadyOffset = (from: number, to: number) =>
+    transitions.some(({ at }) => at.getTime() >= from && at.getTime() < to) ? undefined : offsetAt(from);
+  const toInstant = (wallClock: number) => {
+    const before = wallClock - offsetAt(wallClock - DAY_MS) * 60000;
+    const after = wallClock - offsetAt(wallClock + DAY_MS) * 60000;
+    const candidates = [before, after].filter((instant) => instant + offsetAt(instant) * 60000 === wallClock);
+    return candidates.length ? Math.min(...candidates) : before;
+  };
+
+  const local = ruleTimes(localRules);
+  const utc = ruleTimes(utcRules);
+  const first = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + REPORT_YEARS, 0, 1);
+  // Runs on a local date lie within a day of its UTC midnight; each minute of
+  // that window gets a slot, so comparing two days is comparing two arrays
+  const slots = () => new Uint8Array(3 * 1440);
+  const slot = (day: number, time: number) => (time - day + DAY_MS) / 60000;
+  // UTC runs keyed by the start of the local date they fall on
+  const fired = new Map<number, Uint8Array>();
+  const dates: string[] = [];
+
+  for (let day = first, utcDay = first - DAY_MS; day < end; day += DAY_MS) {
+    // Offsets stay within a day, so runs on a local date come from the UTC dates around it
+    for (; utcDay <= day + DAY_MS; utcDay += DAY_MS) {
+      const steady = steadyOffset(utcDay, utcDay + DAY_MS);
+      forEachTime(utc, utcDay, (minutes) => {
+        const time = utcDay + minutes * 60000;
+        const localDay = Math.floor((time + (steady ?? offsetAt(time)) * 60000) / DAY_MS) * DAY_MS;
+        const actual = fired.get(localDay) ?? slots();
+        actual[slot(localDay, time)] = 1;
+        fired.set(localDay, actual);
+      });
+    }
+
+    const steady = steadyOffset(day - 2 * DAY_MS, day + 2 * DAY_MS);
+    const expected = slots();
+    forEachTime(local, day, (minutes) => {
+      const time = steady === undefined ? toInstant(day + minutes * 60000) : day + (minutes - steady) * 60000;
+      expected[slot(day, time)] = 1;
+    });
+    const actual = fired.get(day) ?? slots();
+    fired.delete(day);
+    let index = 0;
+    while (index < expected.length && expected[index] === actual[index]) index++;
+    if (index < expected.length) {
+      const date = new Date(day);
+      dates.push(isoDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()));
+    }
+  }
+  return dates;
+};
+
+/**
+ * Converts local-time EventBridge rules into UTC rules for a zone with DST.
+ *
+ * Rules that come out the same under every offset of the zone are kept as one.
+ * Months that lie entirely within one offset are grouped per offset. Months in
+ * which the clocks change are split by day-of-month where the rule allows it
+ * (using the reference year's transition day) and otherwise use the offset in
+ * effect for most of the month. Every date on which the UTC rules drift from
+ * the local schedule over the next few years is listed in the report.
+ */
+export function splitForDst(localRules: string[], timeZone: string, at: Date): DstSplitResult {
+  const year = at.getUTCFullYear();
+  const key = `${timeZone}:${year}:${localRules.join("|")}`;
+  const cached = splitCache.get(key);
+  if (cached) return cached;
+
+  const segments = monthSegments(timeZone, year);
+  const offsets = [...new Set(segments.flat().map((segment) => segment.offset))];
+
+  const fullMonths = new Map<number, number[]>();
+  segments.forEach((monthSegments, index) => {
+    if (monthSegments.length !== 1) return;
+    const { offset } = monthSegments[0];
+    fullMonths.set(offset, [...(fullMonths.get(offset) ?? []), index + 1]);
+  });
+
+  const rules: string[] = [];
+  const diagnostics: CronDiagnostic[] = [];
+  const emit = (rule: string, offset: number) => {
+    const shifted = shiftEventBridgeRule(parseCron(rule, "eventbridge").expression, -offset);
+    rules.push(...shifted.rules);
+    diagnostics.push(...shifted.diagnostics);
+  };
+
+  // Rules the offset does not change, e.g. hourly ones, are exact without a split
+  const split: string[] = [];
+  for (const source of localRules) {
+    const rule = parseCron(source, "eventbridge").expression;
+    const [shifted, ...others] = offsets.map((offset) => shiftEventBridgeRule(rule, -offset));
+    if (others.every((other) => other.rules.join("\n") === shifted.rules.join("\n"))) {
+      rules.push(...shifted.rules);
+      diagnostics.push(...shifted.diagnostics);
+      continue;
+    }
+    split.push(source);
+
+    const ruleMonths = expandField(rule.month, getFieldSpec("eventbridge", "month")) ?? [];
+    const splitsByDay =
+      rule.dayOfWeek.items[0]?.kind === "noSpecific" &&
+      rule.dayOfMonth.items.every((token) => token.kind !== "nearestWeekday");
+
+    for (const [offset, months] of fullMonths) {
+      const matching = months.filter((month) => ruleMonths.includes(month));
+      if (matching.length) {
+        emit(formatRule(rule, rule.dayOfMonth.source, formatMonths(matching), rule.dayOfWeek.source), offset);
+      }
+    }
+
+    for (const month of ruleMonths.filter((month) => segments[month - 1].length > 1)) {
+      if (splitsByDay) {
+        for (const segment of segments[month - 1]) {
+          restrictDays(rule, segment).forEach((days) => emit(formatRule(rule, days, String(month), "?"), segment.offset));
+        }
+      } else {
+        emit(formatRule(rule, rule.dayOfMonth.source, String(month), rule.dayOfWeek.source), majority(segments[month - 1]).offset);
+      }
+    }
+  }
+
+  const transitions = Array.from({ length: REPORT_YEARS }, (_, index) =>
+    findDstTransitions(timeZone, year + index)
+  ).flat();
+  const approximateDates = split.length ? findDrift(localRules, [...new Set(rules)], transitions, year) : [];
+
+  if (split.length) {
+    diagnostics.push({
+      severity: "info",
+      code: "dst-split",
+      message: `${timeZone} switches between ${offsets.map(formatUtcOffset).join(" and ")}, so the schedule was split into rules per offset to keep the same wall-clock time year-round. Months in which the clocks change use the ${year} transition days.`,
+    });
+  }
+
+  if (approximateDates.length) {
+    const shown = approximateDates.slice(0, 8).join(", ");
+    const more = approximateDates.length > 8 ? ` and ${approximateDates.length - 8} more` : "";
+    diagnostics.push({
+      severity: "warning",
+      code: "dst-approximate",
+      message: `Between ${year} and ${
+        year + REPORT_YEARS - 1
+      }, the rules do not fire at the crontab's local times on: ${shown}${more}.`,
+    });
+  }
+
+  const unique = new Map(diagnostics.map((diagnostic) => [`${diagnostic.code}:${diagnostic.message}`, diagnostic]));
+  const result = {
+    rules: [...new Set(rules)],
+    diagnostics: [...unique.values()],
+    dst: { timeZone, transitions, approximateDates },
+  };
+  if (splitCache.size >= SPLIT_CACHE_SIZE) splitCache.delete(splitCache.keys().next().value as string);
+  splitCache.set(key, result);
+  return result;
+}
@@ -0,0 +1,13 @@
+import type { CronDiagnostic } from "./types";
+
+/** Thrown by the convenience converters when the input does not validate. */
+export class CronSyntaxError extends Error {
+  readonly diagnostics: CronDiagnostic[];
+
+  constructor(diagnostics: CronDiagnostic[]) {
+    const errors = diagnostics.filter((diagnostic) => diagnostic.severity === "error");
+    super(errors[0]?.message ?? "Invalid cron expression");
+    this.name = "CronSyntaxError";
+    this.diagnostics = diagnostics;
+  }
+}
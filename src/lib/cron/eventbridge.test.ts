@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { convertCronToEventBridge } from "./eventbridge";
+import { CONVERSION_EXAMPLES } from "./examples";
+import { parseCron } from "./parser";
+import { nextRuns } from "./schedule";
+import { convertEventBridgeToUnix } from "./unix";
+
+const FROM = new Date("2025-01-01T00:00:00Z");
+
+const runs = (expressions: string[], dialect: "unix" | "eventbridge", count = 200) =>
+  nextRuns(
+    expressions.map((source) => parseCron(source, dialect).expression),
+    { from: FROM, count }
+  ).map((date) => date.toISOString());
+
+describe("convertCronToEventBridge day of week", () => {
+  it.each([
+    ["0 9 * * 0", "0 9 ? * 1 *"],
+    ["0 9 * * 7", "0 9 ? * 1 *"],
+    ["0 9 * * 1", "0 9 ? * 2 *"],
+    ["0 9 * * 6", "0 9 ? * 7 *"],
+    ["0 9 * * SUN", "0 9 ? * SUN *"],
+    ["0 9 * * mon", "0 9 ? * MON *"],
+    ["0 9 * * MON-FRI", "0 9 ? * MON-FRI *"],
+    ["0 9 * * 1-5", "0 9 ? * 2-6 *"],
+    ["0 9 * * 0-6", "0 9 ? * 1-7 *"],
+    ["0 9 * * 5-7", "0 9 ? * 1,6,7 *"],
+    ["0 9 * * 1,3,5", "0 9 ? * 2,4,6 *"],
+    ["0 9 * * 0,7", "0 9 ? * 1 *"],
+    ["0 9 * * 1-5,0", "0 9 ? * 2-6,1 *"],
+    ["0 9 * * MON,WED-FRI", "0 9 ? * MON,WED-FRI *"],
+    ["0 9 * * */2", "0 9 ? * */2 *"],
+    ["0 9 * * 1-5/2", "0 9 ? * 2-6/2 *"],
+    ["0 9 * * 1/2", "0 9 ? * 1,2,4,6 *"],
+  ])("%s -> %s", (unix, eventbridge) => {
+    expect(convertCronToEventBridge(unix).rules).toEqual([eventbridge]);
+  });
+
+  it.each(["0 9 * * 5-7", "0 9 * * */2", "0 9 * * 1/2", "0 9 * * 1-5/2", "0 9 * * MON,WED-FRI", "0 9 * * 0,7"])(
+    "%s keeps the days it fires on",
+    (unix) => {
+      const { rules } = convertCronToEventBridge(unix);
+      expect(runs(rules, "eventbridge")).toEqual(runs([unix], "unix"));
+    }
+  );
+});
+
+describe("convertCronToEventBridge day fields", () => {
+  it("splits restricted day-of-month and day-of-week fields into two rules", () => {
+    const { rules, diagnostics } = convertCronToEventBridge("0 9 1-7 * 1");
+    expect(rules).toEqual(["0 9 1-7 * ? *", "0 9 ? * 2 *"]);
+    expect(diagnostics.map(({ code }) => code)).toContain("day-fields-split");
+    expect(runs(rules, "eventbridge")).toEqual(runs(["0 9 1-7 * 1"], "unix"));
+  });
+
+  it("uses ? for the unrestricted day field", () => {
+    expect(convertCronToEventBridge("0 9 15 * *").rules).toEqual(["0 9 15 * ? *"]);
+    expect(convertCronToEventBridge("0 9 * * 3").rules).toEqual(["0 9 ? * 4 *"]);
+  });
+});
+
+describe("CONVERSION_EXAMPLES", () => {
+  it.each(CONVERSION_EXAMPLES.map((example) => [example.unix, example]))("%s round-trips", (_, example) => {
+    const { rules } = convertCronToEventBridge(example.unix);
+    expect(rules).toEqual(example.eventbridge);
+
+    const unix = rules.flatMap((rule) => convertEventBridgeToUnix(rule).lines);
+    expect(runs(unix, "unix")).toEqual(runs([example.unix], "unix"));
+  });
+});
+
+describe("convertCronToEventBridge GitHub Actions schedules", () => {
+  it("warns about runs closer together than GitHub allows", () => {
+    const { rules, diagnostics } = convertCronToEventBridge("*/2 * * * *", {}, "github");
+    expect(rules).toEqual(["*/2 * * * ? *"]);
+    expect(diagnostics).toContainEqual(
+      expect.objectContaining({ severity: "warning", code: "github-min-interval", span: { start: 0, end: 3 } })
+    );
+  });
+
+  it("accepts the minimum interval", () => {
+    const { diagnostics } = convertCronToEventBridge("*/5 * * * *", {}, "github");
+    expect(diagnostics.map(({ code }) => code)).not.toContain("github-min-interval");
+  });
+});
+
+describe("convertCronToEventBridge time zones", () => {
+  const at = new Date("2025-01-15T00:00:00Z");
+
+  it("converts from the CRON_TZ= zone when no zone is given", () => {
+    const { rules } = convertCronToEventBridge(
+      "CRON_TZ=Europe/Berlin 0 9 * * *",
+      { at, dstStrategy: "fixed" },
+      "kubernetes"
+    );
+    expect(rules).toEqual(["0 8 * * ? *"]);
+  });
+
+  it("converts from the zone suffix of a systemd calendar event", () => {
+    const { rules } = convertCronToEventBridge(
+      "*-*-* 09:00:00 Europe/Berlin",
+      { at, dstStrategy: "fixed" },
+      "systemd"
+    );
+    expect(rules).toEqual(["0 8 * * ? *"]);
+  });
+
+  it("splits CRON_TZ= schedules at DST transitions by default", () => {
+    const { rules } = convertCronToEventBridge("CRON_TZ=Europe/Berlin 0 9 * * *", { at }, "kubernetes");
+    expect(runs(rules, "eventbridge")).toEqual(
+      nextRuns(parseCron("0 9 * * *").expression, { from: FROM, count: 200, timeZone: "Europe/Berlin" }).map((date) =>
+        date.toISOString()
+      )
+    );
+  });
+
+  it("keeps an hourly schedule in a DST zone as one exact rule", () => {
+    const { rules, diagnostics, dst } = convertCronToEventBridge("0 * * * *", { at, timeZone: "Europe/Berlin" });
+    expect(rules).toEqual(["0 * * * ? *"]);
+    expect(diagnostics.map(({ code }) => code)).not.toContain("leap-year");
+    expect(dst?.approximateDates).toEqual([]);
+  });
+
+  it("warns when the given zone differs from the expression's", () => {
+    const { rules, diagnostics } = convertCronToEventBridge(
+      "CRON_TZ=Europe/Berlin 0 9 * * *",
+      { at, timeZone: "Asia/Tokyo" },
+      "kubernetes"
+    );
+    expect(rules).toEqual(["0 0 * * ? *"]);
+    expect(diagnostics).toContainEqual(
+      expect.objectContaining({ severity: "warning", code: "time-zone-mismatch", span: { start: 0, end: 21 } })
+    );
+  });
+
+  it("warns when a leap-day schedule lands on Feb 28 in UTC", () => {
+    const { rules, diagnostics } = convertCronToEventBridge("0 1 29 2 *", { at, timeZone: "Asia/Tokyo" });
+    expect(rules).toEqual(["0 16 28 2 ? *"]);
+    expect(diagnostics).toContainEqual(expect.objectContaining({ severity: "warning", code: "leap-year" }));
+  });
+});
@@ -0,0 +1,349 @@
+import { CronSyntaxError } from "./errors";
+import { compressValues } from "./format";
+import { splitForDst, type DstReport } from "./dst";
+import { parseCron } from "./parser";
+import { shiftEventBridgeRule } from "./shift";
+import { formatUtcOffset, getTimeZoneOffset, isValidTimeZone } from "./timezone";
+import type {
+  CronDiagnostic,
+  CronDialect,
+  CronExpression,
+  CronField,
+  CronToken,
+  ParseOptions,
+  ValueToken,
+} from "./types";
+import { checkCronExpression, hasErrors } from "./validator";
+
+// Spring treats `?` as another spelling of `*`
+const isWildcard = (field: CronField) =>
+  field.items.length === 1 && (field.items[0].kind === "wildcard" || field.items[0].kind === "noSpecific");
+
+// Unix: 0=Sunday ... 6=Saturday, 7=Sunday again; EventBridge: 1=Sunday ... 7=Saturday
+const toEventBridgeWeekday = (unixDay: number) => (unixDay % 7) + 1;
+
+const unixWeekdays = (start: number, end: number, step = 1): number[] => {
+  const days: number[] = [];
+  for (let day = start; day <= end; day += step) days.push(day);
+  return days;
+};
+
+const emitWeekday = (token: ValueToken) =>
+  token.name ? token.name.toUpperCase() : String(toEventBridgeWeekday(token.value));
+
+// Names are kept only when both ends are named, so `MON-5` becomes `2-6`
+const emitWeekdayRange = (start: ValueToken, end: ValueToken) =>
+  start.name && end.name
+    ? `${emitWeekday(start)}-${emitWeekday(end)}`
+    : `${toEventBridgeWeekday(start.value)}-${toEventBridgeWeekday(end.value)}`;
+
+const emitWeekdays = (days: number[]) => compressValues(days.map(toEventBridgeWeekday));
+
+/**
+ * Maps a single day-of-week token. Each value is shifted exactly once; ranges
+ * and steps that reach Unix `7` (Sunday) would wrap in EventBridge numbering,
+ * so those are expanded into an explicit list instead.
+ */
+const emitDayOfWeekToken = (token: CronToken): string => {
+  switch (token.kind) {
+    case "wildcard":
+      return "*";
+    case "value":
+      return emitWeekday(token);
+    case "range": {
+      const { start, end } = token;
+      if (end.value <= 6) return emitWeekdayRange(start, end);
+      return emitWeekdays(unixWeekdays(start.value, end.value));
+    }
+    case "step": {
+      const { base, step } = token;
+      if (base.kind === "wildcard") return `*/${step}`;
+      if (base.kind === "range" && base.end.value <= 6) {
+        return `${emitWeekdayRange(base.start, base.end)}/${step}`;
+      }
+      // `n/step` runs to the end of the Unix range, which is 7
+      const [start, end] = base.kind === "range" ? [base.start.value, base.end.value] : [base.value, 7];
+      return emitWeekdays(unixWeekdays(start, end, step));
+    }
+    case "lastWeekday":
+      return `${toEventBridgeWeekday(token.weekday.value)}L`;
+    case "nthWeekday":
+      return `${toEventBridgeWeekday(token.weekday.value)}#${token.nth}`;
+    default:
+      throw new Error(`Unsupported day-of-week token "${token.kind}"`);
+  }
+};
+
+const emitDayOfWeek = (field: CronField): string =>
+  [...new Set(field.items.map(emitDayOfWeekToken))].join(",");
+
+export interface EventBridgeConversion {
+  /**
+   * Six-field EventBridge expressions (without the `cron(...)` wrapper). The
+   * union of their fire times equals the source schedule.
+   */
+  rules: string[];
+  /** Notes about how the conversion was done, e.g. why it had to be split. */
+  diagnostics: CronDiagnostic[];
+  /** Present when rules were split at daylight saving transitions. */
+  dst?: DstReport;
+}
+
+// Vixie cron treats a day field as unrestricted when it *starts* with `*`,
+// which also switches the two day fields from OR to AND matching
+const startsWithStar = (field: CronField) => field.source.startsWith("*");
+
+/** Dialects that can be converted to EventBridge. */
+export type SourceDialect = Exclude<CronDialect, "eventbridge">;
+
+export interface EventBridgeOptions extends ParseOptions {
+  /** IANA zone the Unix schedule runs in; hours are shifted into UTC. */
+  timeZone?: string;
+  /** Instant whose UTC offset (and year, for DST) is used; defaults to now. */
+  at?: Date;
+  /**
+   * For zones with daylight saving time: `split` (default) emits separate rules
+   * per offset, `fixed` uses the offset in effect at `at` all year.
+   */
+  dstStrategy?: "split" | "fixed";
+}
+
+// EventBridge needs `?` in exactly one of the day fields, while Unix cron
+// fires when *either* restricted day field matches. When both are restricted
+// the schedule is split into a day-of-month rule and a day-of-week rule.
+const emitUnixRules = (expression: CronExpression): EventBridgeConversion => {
+  const { minute, hour, dayOfMonth, month, dayOfWeek } = expression;
+  const rule = (dom: string, dow: string) => `${minute.source} ${hour.source} ${dom} ${month.source} ${dow} *`;
+
+  if (isWildcard(dayOfWeek)) {
+    return { rules: [rule(dayOfMonth.source, "?")], diagnostics: [] };
+  }
+  if (isWildcard(dayOfMonth)) {
+    return { rules: [rule("?", emitDayOfWeek(dayOfWeek))], diagnostics: [] };
+  }
+
+  if (startsWithStar(dayOfMonth) || startsWithStar(dayOfWeek)) {
+    // AND semantics: EventBridge cannot intersect the two day fields, so keep
+    // the field that is not star-prefixed and report the one that was dropped
+    const keepDayOfWeek = startsWithStar(dayOfMonth) && !startsWithStar(dayOfWeek);
+    const dropped = keepDayOfWeek ? dayOfMonth : dayOfWeek;
+    return {
+      rules: [keepDayOfWeek ? rule("?", emitDayOfWeek(dayOfWeek)) : rule(dayOfMonth.source, "?")],
+      diagnostics: [
+        {
+          severity: "warning",
+          code: "day-fields-intersection",
+          message: `Unix cron only fires when both day-of-month (${dayOfMonth.source}) and day-of-week (${dayOfWeek.source}) match because one of them starts with "*". EventBridge cannot combine both day fields, so the ${
+            dropped === dayOfMonth ? "day-of-month" : "day-of-week"
+          } restriction "${dropped.source}" was dropped.`,
+          field: dropped.name,
+          span: dropped.span,
+        },
+      ],
+    };
+  }
+
+  return {
+    rules: [rule(dayOfMonth.source, "?"), rule("?", emitDayOfWeek(dayOfWeek))],
+    diagnostics: [
+      {
+        severity: "info",
+        code: "day-fields-split",
+        message: `Unix cron fires when either day-of-month (${dayOfMonth.source}) or day-of-week (${dayOfWeek.source}) matches. EventBridge only allows one day field per rule, so the schedule is split into a day-of-month rule and a day-of-week rule that together fire at the same times.`,
+      },
+    ],
+  };
+};
+
+// `L-3` has no EventBridge spelling; the closest is listing the days, which
+// depends on the month length
+const checkLastOffsets = ({ dayOfMonth }: CronExpression): CronDiagnostic[] =>
+  dayOfMonth.items.flatMap((token) =>
+    token.kind === "last" && token.offset
+      ? [
+          {
+            severity: "error" as const,
+            code: "no-eventbridge-equivalent",
+            message: `EventBridge has no equivalent of "L-${token.offset}" (${token.offset} day${
+              token.offset > 1 ? "s" : ""
+            } before the last day of the month)`,
+            field: dayOfMonth.name,
+            span: token.span,
+          },
+        ]
+      : []
+  );
+
+// Quartz already has EventBridge's weekday numbering and `?` rule; only the
+// seconds are dropped and a missing year becomes `*`
+const emitQuartzRules = (expression: CronExpression): EventBridgeConversion => {
+  const { minute, hour, dayOfMonth, month, dayOfWeek, year } = expression;
+  return {
+    rules: [
+      `${minute.source} ${hour.source} ${dayOfMonth.source} ${month.source} ${dayOfWeek.source} ${year?.source ?? "*"}`,
+    ],
+    diagnostics: [],
+  };
+};
+
+// Spring, systemd, Azure and Jenkins number weekdays like Unix but, like
+// Quartz, only fire when both day fields match
+const emitMatchBothRules = (expression: CronExpression, label: string): EventBridgeConversion => {
+  const { minute, hour, dayOfMonth, month, dayOfWeek, year } = expression;
+  const rule = (dom: string, dow: string) =>
+    `${minute.source} ${hour.source} ${dom} ${month.source} ${dow} ${year?.source ?? "*"}`;
+
+  if (isWildcard(dayOfWeek)) {
+    return { rules: [rule(isWildcard(dayOfMonth) ? "*" : dayOfMonth.source, "?")], diagnostics: [] };
+  }
+  if (isWildcard(dayOfMonth)) {
+    return { rules: [rule("?", emitDayOfWeek(dayOfWeek))], diagnostics: [] };
+  }
+  return {
+    rules: [rule(dayOfMonth.source, "?")],
+    diagnostics: [
+      {
+        severity: "warning",
+        code: "day-fields-intersection",
+        message: `${label} only fires when both day-of-month (${dayOfMonth.source}) and day-of-week (${dayOfWeek.source}) match. EventBridge cannot combine both day fields, so the day-of-week restriction "${dayOfWeek.source}" was dropped.`,
+        field: dayOfWeek.name,
+        span: dayOfWeek.span,
+      },
+    ],
+  };
+};
+
+const emitRules = (expression: CronExpression): EventBridgeConversion => {
+  switch (expression.dialect) {
+    case "quartz":
+      return emitQuartzRules(expression);
+    case "spring":
+      return emitMatchBothRules(expression, "Spring");
+    case "systemd":
+      return emitMatchBothRules(expression, "systemd");
+    case "azure":
+      return emitMatchBothRules(expression, "Azure NCRONTAB");
+    case "jenkins":
+      return emitMatchBothRules(expression, "Jenkins");
+    default:
+      return emitUnixRules(expression);
+  }
+};
+
+// EventBridge fires at most once a minute, at the start of the minute
+const checkSeconds = ({ second }: CronExpression): CronDiagnostic[] => {
+  if (!second) return [];
+  const [first] = second.items;
+  const single = second.items.length === 1 && first.kind === "value";
+  if (single && first.value === 0) return [];
+  return [
+    {
+      severity: "warning",
+      code: "seconds-dropped",
+      message: single
+        ? `EventBridge has minute granularity, so runs at second ${first.value} move to the start of the minute.`
+        : `"${second.source}" fires several times a minute. EventBridge has minute granularity, so those runs collapse into one at the start of the minute.`,
+      field: second.name,
+      span: second.span,
+    },
+  ];
+};
+
+const toUtc = (
+  conversion: EventBridgeConversion,
+  { timeZone, at = new Date(), dstStrategy = "split" }: EventBridgeOptions
+): EventBridgeConversion => {
+  if (!isValidTimeZone(timeZone)) {
+    return {
+      rules: [],
+      diagnostics: [{ severity: "error", code: "invalid-time-zone", message: `Unknown time zone "${timeZone}"` }],
+    };
+  }
+
+  const year = at.getUTCFullYear();
+  const winter = getTimeZoneOffset(timeZone, new Date(Date.UTC(year, 0, 1)));
+  const summer = getTimeZoneOffset(timeZone, new Date(Date.UTC(year, 6, 1)));
+  const observesDst = winter !== summer;
+
+  if (observesDst && dstStrategy === "split") {
+    const split = splitForDst(conversion.rules, timeZone, at);
+    return { rules: split.rules, diagnostics: [...conversion.diagnostics, ...split.diagnostics], dst: split.dst };
+  }
+
+  const offset = getTimeZoneOffset(timeZone, at);
+  if (offset === 0) return conversion;
+
+  const rules: string[] = [];
+  const diagnostics = [...conversion.diagnostics];
+  for (const rule of conversion.rules) {
+    const shifted = shiftEventBridgeRule(parseCron(rule, "eventbridge").expression, -offset);
+    rules.push(...shifted.rules);
+    diagnostics.push(...shifted.diagnostics);
+  }
+
+  diagnostics.push({
+    severity: "info",
+    code: "time-zone-shift",
+    message: `Times were shifted from ${timeZone} (${formatUtcOffset(offset)}) to UTC${
+      rules.length > conversion.rules.length ? "; runs that cross midnight needed their own rules" : ""
+    }.`,
+  });
+
+  if (observesDst) {
+    diagnostics.push({
+      severity: "warning",
+      code: "daylight-saving",
+      message: `${timeZone} observes daylight saving time, so the ${formatUtcOffset(
+        offset
+      )} offset used here is only correct for part of the year. Split the rules at DST transitions to keep the local time year-round.`,
+    });
+  }
+
+  return { rules: [...new Set(rules)], diagnostics };
+};
+
+// A zone given by the caller wins over the one written in the expression
+const checkTimeZone = ({ timeZone }: CronExpression, options: EventBridgeOptions): CronDiagnostic[] =>
+  timeZone && options.timeZone && options.timeZone !== timeZone.name
+    ? [
+        {
+          severity: "warning",
+          code: "time-zone-mismatch",
+          message: `The expression runs in ${timeZone.name}, but it was converted from ${options.timeZone} as requested.`,
+          span: timeZone.span,
+        },
+      ]
+    : [];
+
+/**
+ * Emits the EventBridge rules for a parsed expression in any other dialect,
+ * moving it from a local time zone into UTC: `options.timeZone`, or else the
+ * zone the expression names itself (`CRON_TZ=`, a systemd zone suffix).
+ */
+export function toEventBridge(expression: CronExpression, options: EventBridgeOptions = {}): EventBridgeConversion {
+  const unsupported = checkLastOffsets(expression);
+  if (unsupported.length) return { rules: [], diagnostics: unsupported };
+  const emitted = emitRules(expression);
+  const conversion = {
+    ...emitted,
+    diagnostics: [...checkTimeZone(expression, options), ...checkSeconds(expression), ...emitted.diagnostics],
+  };
+  const timeZone = options.timeZone ?? expression.timeZone?.name;
+  return timeZone ? toUtc(conversion, { ...options, timeZone }) : conversion;
+}
+
+/** Parses, validates and converts an expression in one go. */
+export function convertCronToEventBridge(
+  source: string,
+  options: EventBridgeOptions = {},
+  dialect: SourceDialect = "unix"
+): EventBridgeConversion {
+  const { expression, diagnostics } = parseCron(source, dialect, options);
+  const all = expression ? [...diagnostics, ...checkCronExpression(expression)] : diagnostics;
+  if (!expression || hasErrors(all)) {
+    throw new CronSyntaxError(all);
+  }
+  // Warnings such as GitHub's minimum interval still apply to the converted rules
+  const converted = toEventBridge(expression, options);
+  return { ...converted, diagnostics: [...all, ...converted.diagnostics] };
+}
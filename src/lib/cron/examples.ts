@@ -0,0 +1,20 @@
+export interface ConversionExample {
+  unix: string;
+  /** The EventBridge rules the Unix expression converts to, in order. */
+  eventbridge: string[];
+}
+
+/** Conversions shown on the converter page; the tests check each one round-trips. */
+export const CONVERSION_EXAMPLES: ConversionExample[] = [
+  { unix: "15 12 * * *", eventbridge: ["15 12 * * ? *"] },
+  { unix: "0 18 * * 1-5", eventbridge: ["0 18 ? * 2-6 *"] },
+  { unix: "0 8 1 * *", eventbridge: ["0 8 1 * ? *"] },
+  { unix: "0/15 * * * *", eventbridge: ["0/15 * * * ? *"] },
+  { unix: "0/10 * * * 1-5", eventbridge: ["0/10 * ? * 2-6 *"] },
+  { unix: "0/5 8-17 * * 1-5", eventbridge: ["0/5 8-17 ? * 2-6 *"] },
+  { unix: "30 14 * * 0", eventbridge: ["30 14 ? * 1 *"] },
+  { unix: "0 8 * * 1,3,5", eventbridge: ["0 8 ? * 2,4,6 *"] },
+  { unix: "0 12 * JAN,JUN,DEC *", eventbridge: ["0 12 * JAN,JUN,DEC ? *"] },
+  { unix: "0 9 1-7 * 1", eventbridge: ["0 9 1-7 * ? *", "0 9 ? * 2 *"] },
+  { unix: "@weekly", eventbridge: ["0 0 ? * 1 *"] },
+];
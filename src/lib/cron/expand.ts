@@ -0,0 +1,44 @@
+import type { CronFieldSpec } from "./fields";
+import type { CronField, CronToken } from "./types";
+
+const stepRange = (start: number, end: number, step: number): number[] => {
+  const values: number[] = [];
+  for (let value = start; value <= end; value += step) values.push(value);
+  return values;
+};
+
+/**
+ * Values matched by a plain token (wildcard, value, range or step), in the
+ * numbering of the field's dialect. Returns undefined for calendar-dependent
+ * tokens such as `L`, `W` and `#`, and for `?`.
+ */
+export function expandToken(token: CronToken, spec: CronFieldSpec): number[] | undefined {
+  switch (token.kind) {
+    case "wildcard":
+      return stepRange(spec.min, spec.max, 1);
+    case "value":
+      return [token.value];
+    case "range":
+      return stepRange(token.start.value, token.end.value, 1);
+    case "step": {
+      const { base, step } = token;
+      if (step <= 0) return [];
+      if (base.kind === "wildcard") return stepRange(spec.min, spec.max, step);
+      if (base.kind === "range") return stepRange(base.start.value, base.end.value, step);
+      return stepRange(base.value, spec.max, step);
+    }
+    default:
+      return undefined;
+  }
+}
+
+/** Sorted, de-duplicated values matched by a field, or undefined if any token is calendar-dependent. */
+export function expandField(field: CronField, spec: CronFieldSpec): number[] | undefined {
+  const values = new Set<number>();
+  for (const token of field.items) {
+    const expanded = expandToken(token, spec);
+    if (!expanded) return undefined;
+    expanded.forEach((value) => values.add(value));
+  }
+  return [...values].sort((a, b) => a - b);
+}
@@ -0,0 +1,136 @@
+import type { CronDialect, CronFieldName } from "./types";
+
+export interface CronFieldSpec {
+  name: CronFieldName;
+  /** Human-readable name used in diagnostics. */
+  label: string;
+  min: number;
+  max: number;
+  /** Accepted names (upper case) and the number they stand for. */
+  names?: Record<string, number>;
+  /** May be left off the end of the expression, like the Quartz year. */
+  optional?: boolean;
+}
+
+export const MONTH_NAMES: Record<string, number> = {
+  JAN: 1,
+  FEB: 2,
+  MAR: 3,
+  APR: 4,
+  MAY: 5,
+  JUN: 6,
+  JUL: 7,
+  AUG: 8,
+  SEP: 9,
+  OCT: 10,
+  NOV: 11,
+  DEC: 12,
+};
+
+export const WEEKDAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+// Unix: 0=Sunday ... 6=Saturday (7 is accepted as Sunday as well)
+const UNIX_WEEKDAYS = Object.fromEntries(WEEKDAY_NAMES.map((name, index) => [name, index]));
+
+// EventBridge: 1=Sunday ... 7=Saturday
+const EVENTBRIDGE_WEEKDAYS = Object.fromEntries(WEEKDAY_NAMES.map((name, index) => [name, index + 1]));
+
+export const UNIX_FIELDS: CronFieldSpec[] = [
+  { name: "minute", label: "minute", min: 0, max: 59 },
+  { name: "hour", label: "hour", min: 0, max: 23 },
+  { name: "dayOfMonth", label: "day-of-month", min: 1, max: 31 },
+  { name: "month", label: "month", min: 1, max: 12, names: MONTH_NAMES },
+  { name: "dayOfWeek", label: "day-of-week", min: 0, max: 7, names: UNIX_WEEKDAYS },
+];
+
+export const EVENTBRIDGE_FIELDS: CronFieldSpec[] = [
+  { name: "minute", label: "minute", min: 0, max: 59 },
+  { name: "hour", label: "hour", min: 0, max: 23 },
+  { name: "dayOfMonth", label: "day-of-month", min: 1, max: 31 },
+  { name: "month", label: "month", min: 1, max: 12, names: MONTH_NAMES },
+  { name: "dayOfWeek", label: "day-of-week", min: 1, max: 7, names: EVENTBRIDGE_WEEKDAYS },
+  { name: "year", label: "year", min: 1970, max: 2199 },
+];
+
+// Quartz numbers weekdays like EventBridge (1=Sunday) and has an optional year
+export const QUARTZ_FIELDS: CronFieldSpec[] = [
+  { name: "second", label: "second", min: 0, max: 59 },
+  { name: "minute", label: "minute", min: 0, max: 59 },
+  { name: "hour", label: "hour", min: 0, max: 23 },
+  { name: "dayOfMonth", label: "day-of-month", min: 1, max: 31 },
+  { name: "month", label: "month", min: 1, max: 12, names: MONTH_NAMES },
+  { name: "dayOfWeek", label: "day-of-week", min: 1, max: 7, names: EVENTBRIDGE_WEEKDAYS },
+  { name: "year", label: "year", min: 1970, max: 2099, optional: true },
+];
+
+// Spring's CronExpression numbers weekdays like Unix (0 and 7 are Sunday)
+export const SPRING_FIELDS: CronFieldSpec[] = [
+  { name: "second", label: "second", min: 0, max: 59 },
+  { name: "minute", label: "minute", min: 0, max: 59 },
+  { name: "hour", label: "hour", min: 0, max: 23 },
+  { name: "dayOfMonth", label: "day-of-month", min: 1, max: 31 },
+  { name: "month", label: "month", min: 1, max: 12, names: MONTH_NAMES },
+  { name: "dayOfWeek", label: "day-of-week", min: 0, max: 7, names: UNIX_WEEKDAYS },
+];
+
+// systemd weeks start on Monday, so Sunday is 7 and `Sat..Sun` stays ascending
+const SYSTEMD_WEEKDAYS = Object.fromEntries(WEEKDAY_NAMES.map((name, index) => [name, index || 7]));
+
+// systemd calendar events, e.g. `Mon..Fri *-*-* 09:00:00`, mapped onto cron fields
+export const SYSTEMD_FIELDS: CronFieldSpec[] = [
+  { name: "second", label: "second", min: 0, max: 59 },
+  { name: "minute", label: "minute", min: 0, max: 59 },
+  { name: "hour", label: "hour", min: 0, max: 23 },
+  { name: "dayOfMonth", label: "day", min: 1, max: 31 },
+  { name: "month", label: "month", min: 1, max: 12 },
+  { name: "dayOfWeek", label: "weekday", min: 0, max: 7, names: SYSTEMD_WEEKDAYS },
+  { name: "year", label: "year", min: 1970, max: 2199, optional: true },
+];
+
+// Azure Functions NCRONTAB: seconds first, and only 0 is Sunday
+export const AZURE_FIELDS: CronFieldSpec[] = [
+  { name: "second", label: "second", min: 0, max: 59 },
+  { name: "minute", label: "minute", min: 0, max: 59 },
+  { name: "hour", label: "hour", min: 0, max: 23 },
+  { name: "dayOfMonth", label: "day-of-month", min: 1, max: 31 },
+  { name: "month", label: "month", min: 1, max: 12, names: MONTH_NAMES },
+  { name: "dayOfWeek", label: "day-of-week", min: 0, max: 6, names: UNIX_WEEKDAYS },
+];
+
+// Google Cloud Scheduler: Unix fields without the second Sunday
+export const GCP_FIELDS: CronFieldSpec[] = [
+  ...UNIX_FIELDS.slice(0, 4),
+  { name: "dayOfWeek", label: "day-of-week", min: 0, max: 6, names: UNIX_WEEKDAYS },
+];
+
+// Jenkins trigger specs: Unix ranges, but numbers only
+export const JENKINS_FIELDS: CronFieldSpec[] = UNIX_FIELDS.map(({ names, ...spec }) => spec);
+
+export const DIALECT_FIELDS: Record<CronDialect, CronFieldSpec[]> = {
+  unix: UNIX_FIELDS,
+  eventbridge: EVENTBRIDGE_FIELDS,
+  quartz: QUARTZ_FIELDS,
+  spring: SPRING_FIELDS,
+  // CronJob and GitHub Actions schedules use the five Unix fields
+  kubernetes: UNIX_FIELDS,
+  github: UNIX_FIELDS,
+  systemd: SYSTEMD_FIELDS,
+  azure: AZURE_FIELDS,
+  gcp: GCP_FIELDS,
+  jenkins: JENKINS_FIELDS,
+};
+
+export const getFieldSpec = (dialect: CronDialect, name: CronFieldName): CronFieldSpec | undefined =>
+  DIALECT_FIELDS[dialect].find((spec) => spec.name === name);
+
+/**
+ * Whether two restricted day fields fire when *either* matches, as in Vixie
+ * cron (which Kubernetes, GitHub Actions and Cloud Scheduler follow). Other
+ * dialects need both to match.
+ */
+export const matchesEitherDay = (dialect: CronDialect) =>
+  dialect === "unix" || dialect === "kubernetes" || dialect === "github" || dialect === "gcp";
+
+/** Normalises a day-of-week value of the given dialect to 0=Sunday ... 6=Saturday. */
+export const weekdayIndex = (dialect: CronDialect, value: number) =>
+  getFieldSpec(dialect, "dayOfWeek")?.min === 1 ? value - 1 : value % 7;
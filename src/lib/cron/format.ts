@@ -0,0 +1,40 @@
+/**
+ * Collapses a set of numbers into the shortest list-of-ranges form,
+ * e.g. [1, 2, 3, 5] -> "1-3,5".
+ */
+export function compressValues(values: Iterable<number>): string {
+  const sorted = [...new Set(values)].sort((a, b) => a - b);
+  const parts: string[] = [];
+
+  for (let index = 0; index < sorted.length; index++) {
+    const start = sorted[index];
+    while (index + 1 < sorted.length && sorted[index + 1] === sorted[index] + 1) index++;
+    const end = sorted[index];
+    if (end === start) parts.push(String(start));
+    else if (end === start + 1) parts.push(`${start},${end}`);
+    else parts.push(`${start}-${end}`);
+  }
+
+  return parts.join(",");
+}
+
+/**
+ * Formats a set of field values as idiomatically as possible: `*` when it
+ * covers the whole field, `start/step` or `start-end/step` for arithmetic
+ * progressions, and a compressed list otherwise.
+ */
+export function formatValues(values: Iterable<number>, min: number, max: number): string {
+  const sorted = [...new Set(values)].sort((a, b) => a - b);
+  if (sorted.length === max - min + 1) return "*";
+
+  if (sorted.length >= 3) {
+    const step = sorted[1] - sorted[0];
+    const progression = step > 1 && sorted.every((value, index) => value === sorted[0] + index * step);
+    if (progression) {
+      const last = sorted[sorted.length - 1];
+      return last + step > max ? `${sorted[0]}/${step}` : `${sorted[0]}-${last}/${step}`;
+    }
+  }
+
+  return compressValues(sorted);
+}
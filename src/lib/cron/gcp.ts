@@ -0,0 +1,45 @@
+import type { CronDiagnostic } from "./types";
+
+export interface CloudSchedulerOptions {
+  /** Job name; a numeric suffix is added when there are several schedules. */
+  name?: string;
+  /** `--time-zone`; EventBridge rules always run in UTC, hence the default. */
+  timeZone?: string;
+}
+
+export interface CloudSchedulerConversion {
+  /** `gcloud scheduler jobs create http` commands, one per schedule. */
+  commands: string;
+  diagnostics: CronDiagnostic[];
+}
+
+/**
+ * Google Cloud Scheduler jobs for the given crontab lines. Cloud Scheduler
+ * reads Unix cron as-is but takes the time zone as a separate job setting,
+ * and each job has exactly one schedule. The target URI is a placeholder.
+ */
+export function toCloudSchedulerJobs(
+  lines: string[],
+  { name = "cron-schedule", timeZone = "Etc/UTC" }: CloudSchedulerOptions = {}
+): CloudSchedulerConversion {
+  const commands = lines
+    .map((line, index) =>
+      [
+        `gcloud scheduler jobs create http ${lines.length > 1 ? `${name}-${index + 1}` : name}`,
+        `  --schedule="${line}"`,
+        `  --time-zone="${timeZone}"`,
+        '  --uri="<target-url>"',
+      ].join(" \\\n")
+    )
+    .join("\n\n");
+
+  const diagnostics: CronDiagnostic[] = [];
+  if (lines.length > 1) {
+    diagnostics.push({
+      severity: "info",
+      code: "cloud-scheduler-split",
+      message: `A Cloud Scheduler job has a single schedule, so the ${lines.length} crontab lines become one job each.`,
+    });
+  }
+  return { commands, diagnostics };
+}
@@ -0,0 +1,66 @@
+import { expandField } from "./expand";
+import { getFieldSpec } from "./fields";
+import { parseCron } from "./parser";
+import type { CronDiagnostic, CronExpression } from "./types";
+
+/** GitHub Actions does not run scheduled workflows more often than this. */
+export const GITHUB_MIN_INTERVAL_MINUTES = 5;
+
+// The gap across the hour boundary only counts when consecutive hours both fire
+const shortestGap = ({ minute, hour }: CronExpression): number | undefined => {
+  const minutes = expandField(minute, getFieldSpec("github", "minute"));
+  const hours = expandField(hour, getFieldSpec("github", "hour"));
+  if (!minutes?.length || !hours?.length) return undefined;
+
+  const sorted = [...new Set(minutes)].sort((a, b) => a - b);
+  const gaps = sorted.slice(1).map((value, index) => value - sorted[index]);
+  const firing = new Set(hours);
+  if (hours.some((value) => firing.has((value + 1) % 24))) {
+    gaps.push(sorted[0] + 60 - sorted[sorted.length - 1]);
+  }
+  return gaps.length ? Math.min(...gaps) : undefined;
+};
+
+/** Warns about schedules that fire more often than GitHub Actions allows. */
+export function checkGitHubInterval(expression: CronExpression): CronDiagnostic[] {
+  const gap = shortestGap(expression);
+  if (gap === undefined || gap >= GITHUB_MIN_INTERVAL_MINUTES) return [];
+  const { minute } = expression;
+  return [
+    {
+      severity: "warning",
+      code: "github-min-interval",
+      message: `GitHub Actions runs scheduled workflows at most once every ${GITHUB_MIN_INTERVAL_MINUTES} minutes, but "${
+        minute.source
+      }" has runs ${gap} minute${gap > 1 ? "s" : ""} apart, so some of them will be skipped`,
+      field: minute.name,
+      span: minute.span,
+    },
+  ];
+}
+
+export interface GitHubScheduleConversion {
+  /** `on: schedule:` block to paste into a workflow file. */
+  yaml: string;
+  diagnostics: CronDiagnostic[];
+}
+
+/**
+ * Builds the `on: schedule:` block of a workflow with one `cron` entry per
+ * crontab line. GitHub evaluates the entries in UTC.
+ */
+export function toGitHubSchedule(lines: string[]): GitHubScheduleConversion {
+  const diagnostics = lines.flatMap((line) => {
+    const { expression } = parseCron(line, "github");
+    return expression ? checkGitHubInterval(expression) : [];
+  });
+  diagnostics.push({
+    severity: "info",
+    code: "github-best-effort",
+    message:
+      "GitHub Actions schedules are best effort: runs can start late or be dropped when load is high, most often at the top of the hour, and they only run from the default branch.",
+  });
+
+  const yaml = ["on:", "  schedule:", ...lines.map((line) => `    - cron: '${line}'`)].join("\n");
+  return { yaml, diagnostics };
+}
@@ -0,0 +1,82 @@
+export * from "./types";
+export * from "./fields";
+export * from "./errors";
+export { parseCron, unwrapCron } from "./parser";
+export { checkCronExpression, validateCron, hasErrors } from "./validator";
+export { expandField, expandToken } from "./expand";
+export { compressValues, formatValues } from "./format";
+export { describeCron, describeRate } from "./describe";
+export {
+  DESCRIPTION_LOCALES,
+  type DescriptionLanguage,
+  type DescriptionLocale,
+  type DescriptionUnit,
+} from "./locales";
+export {
+  toEventBridge,
+  convertCronToEventBridge,
+  type EventBridgeConversion,
+  type EventBridgeOptions,
+  type SourceDialect,
+} from "./eventbridge";
+export { toUnix, convertEventBridgeToUnix, type UnixConversion } from "./unix";
+export { CONVERSION_EXAMPLES, type ConversionExample } from "./examples";
+export { toKubernetesCronJobs, type KubernetesCronJobOptions } from "./kubernetes";
+export { CRON_MACROS, REBOOT_MACRO, isCronMacro } from "./macros";
+export { JENKINS_MACROS, jenkinsHash } from "./jenkins";
+export {
+  parseOnCalendar,
+  toOnCalendar,
+  toSystemdTimer,
+  SYSTEMD_SHORTHANDS,
+  type OnCalendarConversion,
+  type SystemdTimer,
+  type SystemdTimerOptions,
+} from "./systemd";
+export {
+  checkGitHubInterval,
+  toGitHubSchedule,
+  GITHUB_MIN_INTERVAL_MINUTES,
+  type GitHubScheduleConversion,
+} from "./github";
+export { toCloudFormationTemplate, toSamTemplate, type CloudFormationOptions } from "./cloudformation";
+export { toLogicalId, toResourceName } from "./naming";
+export { toTerraform, type TerraformOptions } from "./terraform";
+export { toCdk, toCdkCronOptions, type CdkCronOptions, type CdkOptions } from "./cdk";
+export { toAwsCliCommands, type AwsCliOptions } from "./awscli";
+export { toServerlessFunction, type ServerlessOptions } from "./serverless";
+export {
+  parseCrontab,
+  toRuleDefinitions,
+  type CrontabEntry,
+  type CrontabEntryStatus,
+  type CrontabOptions,
+  type CrontabReport,
+  type CrontabRuleDefinition,
+} from "./crontab";
+export { toCommandTarget, type CommandTargetKind, type CommandTargetOptions, type EventBridgeTarget } from "./targets";
+export { toAzureTimerTriggers, type AzureTimerConversion, type AzureTimerOptions } from "./azure";
+export { toCloudSchedulerJobs, type CloudSchedulerConversion, type CloudSchedulerOptions } from "./gcp";
+export { dayMatcher, nextRuns, type NextRunsOptions } from "./schedule";
+export { shiftEventBridgeRule, type ShiftResult } from "./shift";
+export * from "./timezone";
+export { findDstTransitions, splitForDst, type DstReport, type DstSplitResult, type DstTransition } from "./dst";
+export {
+  toSchedulerSchedules,
+  validateSchedulerOptions,
+  type SchedulerConversion,
+  type SchedulerOptions,
+  type SchedulerSchedule,
+} from "./scheduler";
+export {
+  cronToRate,
+  convertRateToUnix,
+  formatRate,
+  isRateExpression,
+  parseRate,
+  rateToUnix,
+  type RateExpression,
+  type RateParseResult,
+  type RateSimplification,
+  type RateUnit,
+} from "./rate";
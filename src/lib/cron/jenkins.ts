@@ -0,0 +1,99 @@
+import type { CronFieldName } from "./types";
+
+/**
+ * Jenkins spreads `H` fields over the allowed values with a generator seeded
+ * from the job's full name, so the same job always lands on the same times.
+ * This reproduces `hudson.scheduler.Hash`: the MD5 of the name folded into a
+ * 64-bit seed for `java.util.Random`, whose `nextInt` is drawn once per `H`.
+ */
+
+/** Jenkins' aliases; unlike cron's, they hash their fields too. */
+export const JENKINS_MACROS: Record<string, string> = {
+  "@yearly": "H H H H *",
+  "@annually": "H H H H *",
+  "@monthly": "H H H * *",
+  "@weekly": "H H * * H",
+  "@daily": "H H * * *",
+  "@midnight": "H H(0-2) * * *",
+  "@hourly": "H * * * *",
+};
+
+/** `H` without a range stays within days 1-28 and weekdays 0-6, as in Jenkins. */
+export const JENKINS_HASH_LIMITS: Partial<Record<CronFieldName, number>> = { dayOfMonth: 28, dayOfWeek: 6 };
+
+// Per-round shift amounts and the sine-derived constants of RFC 1321
+const SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const SINES = Array.from({ length: 64 }, (_, index) => Math.floor(Math.abs(Math.sin(index + 1)) * 2 ** 32) >>> 0);
+
+const md5 = (bytes: Uint8Array): Uint8Array => {
+  const length = ((bytes.length + 8) >>> 6) * 64 + 64;
+  const padded = new Uint8Array(length);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(length - 8, (bytes.length * 8) >>> 0, true);
+  view.setUint32(length - 4, Math.floor(bytes.length / 2 ** 29), true);
+
+  const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+  for (let chunk = 0; chunk < length; chunk += 64) {
+    let [a, b, c, d] = state;
+    for (let index = 0; index < 64; index++) {
+      const round = index >> 4;
+      const mixed = [
+        (b & c) | (~b & d),
+        (d & b) | (~d & c),
+        b ^ c ^ d,
+        c ^ (b | ~d),
+      ][round];
+      const word = [index, 5 * index + 1, 3 * index + 5, 7 * index][round] % 16;
+      const shift = SHIFTS[round * 4 + (index % 4)];
+      const sum = (a + mixed + SINES[index] + view.getUint32(chunk + word * 4, true)) | 0;
+      [a, d, c] = [d, c, b];
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+    }
+    state[0] = (state[0] + a) | 0;
+    state[1] = (state[1] + b) | 0;
+    state[2] = (state[2] + c) | 0;
+    state[3] = (state[3] + d) | 0;
+  }
+
+  const digest = new Uint8Array(16);
+  const output = new DataView(digest.buffer);
+  state.forEach((word, index) => output.setUint32(index * 4, word, true));
+  return digest;
+};
+
+const MULTIPLIER = BigInt("0x5DEECE66D");
+const MASK = (BigInt(1) << BigInt(48)) - BigInt(1);
+
+/**
+ * Returns Jenkins' `Hash.next(bound)` for the given job name: successive
+ * calls yield the values Jenkins picks for successive `H` tokens. Without a
+ * name every call returns 0, like Jenkins' unseeded `Hash.zero()`.
+ */
+export function jenkinsHash(jobName?: string): (bound: number) => number {
+  if (!jobName) return () => 0;
+
+  const digest = md5(new TextEncoder().encode(jobName));
+  for (let index = 8; index < digest.length; index++) digest[index % 8] ^= digest[index];
+  let seed = digest.slice(0, 8).reduce((value, byte) => (value << BigInt(8)) | BigInt(byte), BigInt(0));
+  seed = (seed ^ MULTIPLIER) & MASK;
+
+  // java.util.Random#next(31)
+  const next31 = () => {
+    seed = (seed * MULTIPLIER + BigInt(11)) & MASK;
+    return Number(seed >> BigInt(17));
+  };
+
+  // java.util.Random#nextInt(bound), including its rejection of biased draws
+  return (bound) => {
+    let draw = next31();
+    if ((bound & (bound - 1)) === 0) return Number((BigInt(bound) * BigInt(draw)) >> BigInt(31));
+    let value = draw % bound;
+    while (((draw - value + bound - 1) | 0) < 0) {
+      draw = next31();
+      value = draw % bound;
+    }
+    return value;
+  };
+}
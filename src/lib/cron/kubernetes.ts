@@ -0,0 +1,41 @@
+export interface KubernetesCronJobOptions {
+  /** `metadata.name`; a numeric suffix is added when there are several schedules. */
+  name?: string;
+  /** `spec.timeZone`; EventBridge rules always run in UTC, hence the default. */
+  timeZone?: string;
+}
+
+// Double-quoted JSON strings are valid YAML scalars, and `*` needs quoting
+const quote = (value: string) => JSON.stringify(value);
+
+/**
+ * CronJob manifests for the given `spec.schedule` strings, one per schedule,
+ * as a multi-document YAML string for `kubectl apply -f -`. The job template
+ * is a placeholder to fill in.
+ */
+export function toKubernetesCronJobs(
+  schedules: string[],
+  { name = "cron-schedule", timeZone = "Etc/UTC" }: KubernetesCronJobOptions = {}
+): string {
+  return schedules
+    .map((schedule, index) =>
+      [
+        "apiVersion: batch/v1",
+        "kind: CronJob",
+        "metadata:",
+        `  name: ${schedules.length > 1 ? `${name}-${index + 1}` : name}`,
+        "spec:",
+        `  schedule: ${quote(schedule)}`,
+        `  timeZone: ${quote(timeZone)}`,
+        "  jobTemplate:",
+        "    spec:",
+        "      template:",
+        "        spec:",
+        "          containers:",
+        "            - name: job",
+        "              image: <image>",
+        "          restartPolicy: OnFailure",
+      ].join("\n")
+    )
+    .join("\n---\n");
+}
@@ -0,0 +1,68 @@
+import { joinWith, type DescriptionLocale, type DescriptionUnit } from "./shared";
+
+const UNITS: Record<DescriptionUnit, [string, string]> = {
+  second: ["jede Sekunde", "Sekunden"],
+  minute: ["jede Minute", "Minuten"],
+  hour: ["jede Stunde", "Stunden"],
+  day: ["jeden Tag", "Tage"],
+  dayOfWeek: ["jeden Wochentag", "Wochentage"],
+  month: ["jeden Monat", "Monate"],
+  year: ["jedes Jahr", "Jahre"],
+};
+
+const NTH = ["ersten", "zweiten", "dritten", "vierten", "fünften"];
+
+const list = joinWith(" und ");
+
+export const de: DescriptionLocale = {
+  name: "Deutsch",
+  months: [
+    "Januar",
+    "Februar",
+    "März",
+    "April",
+    "Mai",
+    "Juni",
+    "Juli",
+    "August",
+    "September",
+    "Oktober",
+    "November",
+    "Dezember",
+  ],
+  weekdays: ["Sonntag", "Montag", "Dienstag", "Mittwoch", "Donnerstag", "Freitag", "Samstag"],
+  separator: ", ",
+  list,
+
+  minute: String,
+  hour: String,
+  day: String,
+  year: String,
+  range: (from, to) => `${from} bis ${to}`,
+
+  every: (step, unit) => (step === 1 ? UNITS[unit][0] : `alle ${step} ${UNITS[unit][1]}`),
+  stepBetween: (every, from, to) => `${every} von ${from} bis ${to}`,
+  stepFrom: (every, from) => `${every} ab ${from}`,
+
+  atSeconds: (seconds, plural) => `zu Sekunde${plural ? "n" : ""} ${seconds}`,
+  at: (times) => `um ${times}`,
+  everyMinute: "jede Minute",
+  atMinutes: (minutes, plural, everyHour) =>
+    `zu Minute${plural ? "n" : ""} ${minutes}${everyHour ? " jeder Stunde" : ""}`,
+  duringHours: (hours, plural) => `in Stunde${plural ? "n" : ""} ${hours}`,
+  betweenHours: (from, to) => `zwischen ${from} und ${to}`,
+
+  daysOfMonth: (days, plural) => (plural ? `an den Tagen ${days} des Monats` : `am Tag ${days} des Monats`),
+  lastDayOfMonth: "am letzten Tag des Monats",
+  daysBeforeLastDay: (days) => `${days} Tag${days > 1 ? "e" : ""} vor dem letzten Tag des Monats`,
+  nearestWeekday: (day) => `am nächstgelegenen Werktag zum ${day}. des Monats`,
+  lastWeekdayOfMonth: "am letzten Werktag des Monats",
+  onWeekdays: (weekdays) => `am ${list(weekdays)}`,
+  lastWeekdayOf: (weekday) => `am letzten ${weekday} des Monats`,
+  nthWeekdayOf: (nth, weekday) => `am ${NTH[nth - 1] ?? `${nth}.`} ${weekday} des Monats`,
+
+  inMonths: (months) => `im ${months}`,
+  inYears: (years) => `im Jahr ${years}`,
+  either: (dayOfMonth, dayOfWeek) => `${dayOfMonth} oder ${dayOfWeek}`,
+  both: (dayOfMonth, dayOfWeek) => `${dayOfMonth}, wenn es ${dayOfWeek} ist`,
+};
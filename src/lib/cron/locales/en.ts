@@ -0,0 +1,72 @@
+import { joinWith, type DescriptionLocale, type DescriptionUnit } from "./shared";
+
+const UNITS: Record<DescriptionUnit, [string, string]> = {
+  second: ["second", "seconds"],
+  minute: ["minute", "minutes"],
+  hour: ["hour", "hours"],
+  day: ["day", "days"],
+  dayOfWeek: ["day of the week", "days of the week"],
+  month: ["month", "months"],
+  year: ["year", "years"],
+};
+
+const NTH = ["first", "second", "third", "fourth", "fifth"];
+
+const ordinal = (value: number) => {
+  const teen = value % 100 >= 11 && value % 100 <= 13;
+  return `${value}${teen ? "th" : ["th", "st", "nd", "rd"][value % 10] ?? "th"}`;
+};
+
+const list = joinWith(" and ");
+
+export const en: DescriptionLocale = {
+  name: "English",
+  months: [
+    "January",
+    "February",
+    "March",
+    "April",
+    "May",
+    "June",
+    "July",
+    "August",
+    "September",
+    "October",
+    "November",
+    "December",
+  ],
+  weekdays: ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"],
+  separator: ", ",
+  list,
+
+  minute: (value) => `:${String(value).padStart(2, "0")}`,
+  hour: String,
+  day: String,
+  year: String,
+  range: (from, to) => `${from} through ${to}`,
+
+  every: (step, unit) => (step === 1 ? `every ${UNITS[unit][0]}` : `every ${step} ${UNITS[unit][1]}`),
+  stepBetween: (every, from, to) => `${every} from ${from} through ${to}`,
+  stepFrom: (every, from) => `${every} starting at ${from}`,
+
+  atSeconds: (seconds, plural) => `at second${plural ? "s" : ""} ${seconds}`,
+  at: (times) => `at ${times}`,
+  everyMinute: "every minute",
+  atMinutes: (minutes, _plural, everyHour) => `at ${minutes}${everyHour ? " past every hour" : ""}`,
+  duringHours: (hours, plural) => `during hour${plural ? "s" : ""} ${hours}`,
+  betweenHours: (from, to) => `between ${from} and ${to}`,
+
+  daysOfMonth: (days, plural) => `on day${plural ? "s" : ""} ${days} of the month`,
+  lastDayOfMonth: "on the last day of the month",
+  daysBeforeLastDay: (days) => `${days} day${days > 1 ? "s" : ""} before the last day of the month`,
+  nearestWeekday: (day) => `on the weekday nearest day ${day} of the month`,
+  lastWeekdayOfMonth: "on the last weekday of the month",
+  onWeekdays: (weekdays) => `on ${list(weekdays)}`,
+  lastWeekdayOf: (weekday) => `on the last ${weekday} of the month`,
+  nthWeekdayOf: (nth, weekday) => `on the ${NTH[nth - 1] ?? ordinal(nth)} ${weekday} of the month`,
+
+  inMonths: (months) => `in ${months}`,
+  inYears: (years) => `in ${years}`,
+  either: (dayOfMonth, dayOfWeek) => `${dayOfMonth} or ${dayOfWeek}`,
+  both: (dayOfMonth, dayOfWeek) => `${dayOfMonth}, if it is ${dayOfWeek}`,
+};
@@ -0,0 +1,68 @@
+import { joinWith, type DescriptionLocale, type DescriptionUnit } from "./shared";
+
+const UNITS: Record<DescriptionUnit, [string, string]> = {
+  second: ["segundo", "segundos"],
+  minute: ["minuto", "minutos"],
+  hour: ["hora", "horas"],
+  day: ["día", "días"],
+  dayOfWeek: ["día de la semana", "días de la semana"],
+  month: ["mes", "meses"],
+  year: ["año", "años"],
+};
+
+const NTH = ["primer", "segundo", "tercer", "cuarto", "quinto"];
+
+const list = joinWith(" y ");
+
+export const es: DescriptionLocale = {
+  name: "Español",
+  months: [
+    "enero",
+    "febrero",
+    "marzo",
+    "abril",
+    "mayo",
+    "junio",
+    "julio",
+    "agosto",
+    "septiembre",
+    "octubre",
+    "noviembre",
+    "diciembre",
+  ],
+  weekdays: ["domingo", "lunes", "martes", "miércoles", "jueves", "viernes", "sábado"],
+  separator: ", ",
+  list,
+
+  minute: String,
+  hour: String,
+  day: String,
+  year: String,
+  range: (from, to) => `${from} a ${to}`,
+
+  every: (step, unit) => (step === 1 ? `cada ${UNITS[unit][0]}` : `cada ${step} ${UNITS[unit][1]}`),
+  stepBetween: (every, from, to) => `${every} de ${from} a ${to}`,
+  stepFrom: (every, from) => `${every} a partir de ${from}`,
+
+  atSeconds: (seconds, plural) => `${plural ? "en los segundos" : "en el segundo"} ${seconds}`,
+  at: (times) => `a las ${times}`,
+  everyMinute: "cada minuto",
+  atMinutes: (minutes, plural, everyHour) =>
+    `${plural ? "en los minutos" : "en el minuto"} ${minutes}${everyHour ? " de cada hora" : ""}`,
+  duringHours: (hours, plural) => `${plural ? "durante las horas" : "durante la hora"} ${hours}`,
+  betweenHours: (from, to) => `entre las ${from} y las ${to}`,
+
+  daysOfMonth: (days, plural) => `${plural ? "los días" : "el día"} ${days} del mes`,
+  lastDayOfMonth: "el último día del mes",
+  daysBeforeLastDay: (days) => `${days} día${days > 1 ? "s" : ""} antes del último día del mes`,
+  nearestWeekday: (day) => `el día laborable más cercano al día ${day} del mes`,
+  lastWeekdayOfMonth: "el último día laborable del mes",
+  onWeekdays: (weekdays) => `los ${list(weekdays)}`,
+  lastWeekdayOf: (weekday) => `el último ${weekday} del mes`,
+  nthWeekdayOf: (nth, weekday) => `el ${NTH[nth - 1] ?? `${nth}.º`} ${weekday} del mes`,
+
+  inMonths: (months) => `en ${months}`,
+  inYears: (years) => `en ${years}`,
+  either: (dayOfMonth, dayOfWeek) => `${dayOfMonth} o ${dayOfWeek}`,
+  both: (dayOfMonth, dayOfWeek) => `${dayOfMonth}, si es ${dayOfWeek}`,
+};
@@ -0,0 +1,69 @@
+import { joinWith, type DescriptionLocale, type DescriptionUnit } from "./shared";
+
+// "toutes les" for feminine units, "tous les" for masculine ones
+const UNITS: Record<DescriptionUnit, [string, (step: number) => string]> = {
+  second: ["toutes les secondes", (step) => `toutes les ${step} secondes`],
+  minute: ["toutes les minutes", (step) => `toutes les ${step} minutes`],
+  hour: ["toutes les heures", (step) => `toutes les ${step} heures`],
+  day: ["tous les jours", (step) => `tous les ${step} jours`],
+  dayOfWeek: ["tous les jours de la semaine", (step) => `tous les ${step} jours de la semaine`],
+  month: ["tous les mois", (step) => `tous les ${step} mois`],
+  year: ["tous les ans", (step) => `tous les ${step} ans`],
+};
+
+const NTH = ["premier", "deuxième", "troisième", "quatrième", "cinquième"];
+
+const list = joinWith(" et ");
+
+export const fr: DescriptionLocale = {
+  name: "Français",
+  months: [
+    "janvier",
+    "février",
+    "mars",
+    "avril",
+    "mai",
+    "juin",
+    "juillet",
+    "août",
+    "septembre",
+    "octobre",
+    "novembre",
+    "décembre",
+  ],
+  weekdays: ["dimanche", "lundi", "mardi", "mercredi", "jeudi", "vendredi", "samedi"],
+  separator: ", ",
+  list,
+
+  minute: String,
+  hour: String,
+  day: String,
+  year: String,
+  range: (from, to) => `${from} à ${to}`,
+
+  every: (step, unit) => (step === 1 ? UNITS[unit][0] : UNITS[unit][1](step)),
+  stepBetween: (every, from, to) => `${every} de ${from} à ${to}`,
+  stepFrom: (every, from) => `${every} à partir de ${from}`,
+
+  atSeconds: (seconds, plural) => `${plural ? "aux secondes" : "à la seconde"} ${seconds}`,
+  at: (times) => `à ${times}`,
+  everyMinute: "toutes les minutes",
+  atMinutes: (minutes, plural, everyHour) =>
+    `${plural ? "aux minutes" : "à la minute"} ${minutes}${everyHour ? " de chaque heure" : ""}`,
+  duringHours: (hours, plural) => `${plural ? "pendant les heures" : "pendant l'heure"} ${hours}`,
+  betweenHours: (from, to) => `entre ${from} et ${to}`,
+
+  daysOfMonth: (days, plural) => `${plural ? "les jours" : "le jour"} ${days} du mois`,
+  lastDayOfMonth: "le dernier jour du mois",
+  daysBeforeLastDay: (days) => `${days} jour${days > 1 ? "s" : ""} avant le dernier jour du mois`,
+  nearestWeekday: (day) => `le jour ouvré le plus proche du ${day} du mois`,
+  lastWeekdayOfMonth: "le dernier jour ouvré du mois",
+  onWeekdays: (weekdays) => `le ${list(weekdays)}`,
+  lastWeekdayOf: (weekday) => `le dernier ${weekday} du mois`,
+  nthWeekdayOf: (nth, weekday) => `le ${NTH[nth - 1] ?? `${nth}e`} ${weekday} du mois`,
+
+  inMonths: (months) => `en ${months}`,
+  inYears: (years) => `en ${years}`,
+  either: (dayOfMonth, dayOfWeek) => `${dayOfMonth} ou ${dayOfWeek}`,
+  both: (dayOfMonth, dayOfWeek) => `${dayOfMonth}, si c'est un ${dayOfWeek}`,
+};
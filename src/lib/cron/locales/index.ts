@@ -0,0 +1,13 @@
+import { de } from "./de";
+import { en } from "./en";
+import { es } from "./es";
+import { fr } from "./fr";
+import { ja } from "./ja";
+import { pt } from "./pt";
+import type { DescriptionLocale } from "./shared";
+
+export type { DescriptionLocale, DescriptionUnit } from "./shared";
+
+export type DescriptionLanguage = "en" | "de" | "pt" | "es" | "fr" | "ja";
+
+export const DESCRIPTION_LOCALES: Record<DescriptionLanguage, DescriptionLocale> = { en, de, pt, es, fr, ja };
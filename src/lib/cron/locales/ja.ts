@@ -0,0 +1,54 @@
+import { type DescriptionLocale, type DescriptionUnit } from "./shared";
+
+const UNITS: Record<DescriptionUnit, [string, string]> = {
+  second: ["毎秒", "秒ごと"],
+  minute: ["毎分", "分ごと"],
+  hour: ["毎時", "時間ごと"],
+  day: ["毎日", "日ごと"],
+  dayOfWeek: ["毎日", "日ごと"],
+  month: ["毎月", "か月ごと"],
+  year: ["毎年", "年ごと"],
+};
+
+// Japanese puts the qualifier before the phrase it narrows, so ranges and
+// starting points come first: "0分から30分まで5分ごと"
+const list = (items: string[]) => items.join("、");
+
+export const ja: DescriptionLocale = {
+  name: "日本語",
+  months: ["1月", "2月", "3月", "4月", "5月", "6月", "7月", "8月", "9月", "10月", "11月", "12月"],
+  weekdays: ["日曜日", "月曜日", "火曜日", "水曜日", "木曜日", "金曜日", "土曜日"],
+  separator: "、",
+  list,
+
+  minute: (value) => `${value}分`,
+  hour: (value) => `${value}時`,
+  day: (value) => `${value}日`,
+  year: (value) => `${value}年`,
+  range: (from, to) => `${from}から${to}まで`,
+
+  every: (step, unit) => (step === 1 ? UNITS[unit][0] : `${step}${UNITS[unit][1]}`),
+  stepBetween: (every, from, to) => `${from}から${to}まで${every}`,
+  stepFrom: (every, from) => `${from}から${every}`,
+
+  atSeconds: (seconds) => `${seconds}秒に`,
+  at: (times) => `${times}に`,
+  everyMinute: "毎分",
+  atMinutes: (minutes, _plural, everyHour) => `${everyHour ? "毎時" : ""}${minutes}に`,
+  duringHours: (hours) => `${hours}台`,
+  betweenHours: (from, to) => `${from}から${to}まで`,
+
+  daysOfMonth: (days) => `毎月${days}`,
+  lastDayOfMonth: "月末",
+  daysBeforeLastDay: (days) => `月末の${days}日前`,
+  nearestWeekday: (day) => `${day}日に最も近い平日`,
+  lastWeekdayOfMonth: "月の最終平日",
+  onWeekdays: (weekdays) => list(weekdays),
+  lastWeekdayOf: (weekday) => `最終${weekday}`,
+  nthWeekdayOf: (nth, weekday) => `第${nth}${weekday}`,
+
+  inMonths: (months) => months,
+  inYears: (years) => years,
+  either: (dayOfMonth, dayOfWeek) => `${dayOfMonth}または${dayOfWeek}`,
+  both: (dayOfMonth, dayOfWeek) => `${dayOfMonth}(${dayOfWeek}の場合)`,
+};
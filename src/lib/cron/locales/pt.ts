@@ -0,0 +1,94 @@
+import { joinWith, type DescriptionLocale, type DescriptionUnit } from "./shared";
+
+const UNITS: Record<DescriptionUnit, [string, string]> = {
+  second: ["segundo", "segundos"],
+  minute: ["minuto", "minutos"],
+  hour: ["hora", "horas"],
+  day: ["dia", "dias"],
+  dayOfWeek: ["dia da semana", "dias da semana"],
+  month: ["mês", "meses"],
+  year: ["ano", "anos"],
+};
+
+const NTH_FEMININE = ["primeira", "segunda", "terceira", "quarta", "quinta"];
+const NTH_MASCULINE = ["primeiro", "segundo", "terceiro", "quarto", "quinto"];
+
+const WEEKDAYS = ["domingo", "segunda-feira", "terça-feira", "quarta-feira", "quinta-feira", "sexta-feira", "sábado"];
+
+// Weekdays ending in "-feira" are feminine; sábado and domingo are masculine
+const isFeminine = (weekday: string) => weekday.endsWith("feira");
+
+// "segunda-feira" -> "segundas-feiras", "sábado" -> "sábados"
+const plural = (weekday: string) => (isFeminine(weekday) ? weekday.replace("-feira", "s-feiras") : `${weekday}s`);
+
+const list = joinWith(" e ");
+
+// Recurring days take the plural with a matching article, which is repeated
+// when the genders differ; ranges read "de segunda-feira a sexta-feira"
+const onWeekdays = (weekdays: string[]) => {
+  const days = weekdays.filter((weekday) => WEEKDAYS.includes(weekday));
+  if (days.length === weekdays.length && new Set(days.map(isFeminine)).size === 1) {
+    return `${isFeminine(days[0]) ? "às" : "aos"} ${list(days.map(plural))}`;
+  }
+  return list(
+    weekdays.map((weekday) =>
+      WEEKDAYS.includes(weekday) ? `${isFeminine(weekday) ? "às" : "aos"} ${plural(weekday)}` : `de ${weekday}`
+    )
+  );
+};
+
+export const pt: DescriptionLocale = {
+  name: "Português",
+  months: [
+    "janeiro",
+    "fevereiro",
+    "março",
+    "abril",
+    "maio",
+    "junho",
+    "julho",
+    "agosto",
+    "setembro",
+    "outubro",
+    "novembro",
+    "dezembro",
+  ],
+  weekdays: WEEKDAYS,
+  separator: ", ",
+  list,
+
+  minute: String,
+  hour: String,
+  day: String,
+  year: String,
+  range: (from, to) => `${from} a ${to}`,
+
+  every: (step, unit) => (step === 1 ? `a cada ${UNITS[unit][0]}` : `a cada ${step} ${UNITS[unit][1]}`),
+  stepBetween: (every, from, to) => `${every} de ${from} até ${to}`,
+  stepFrom: (every, from) => `${every} a partir de ${from}`,
+
+  atSeconds: (seconds, plural) => `${plural ? "nos segundos" : "no segundo"} ${seconds}`,
+  at: (times) => `às ${times}`,
+  everyMinute: "a cada minuto",
+  atMinutes: (minutes, plural, everyHour) =>
+    `${plural ? "nos minutos" : "no minuto"} ${minutes}${everyHour ? " de cada hora" : ""}`,
+  duringHours: (hours, plural) => `${plural ? "durante as horas" : "durante a hora"} ${hours}`,
+  betweenHours: (from, to) => `entre ${from} e ${to}`,
+
+  daysOfMonth: (days, plural) => `${plural ? "nos dias" : "no dia"} ${days} do mês`,
+  lastDayOfMonth: "no último dia do mês",
+  daysBeforeLastDay: (days) => `${days} dia${days > 1 ? "s" : ""} antes do último dia do mês`,
+  nearestWeekday: (day) => `no dia útil mais próximo do dia ${day} do mês`,
+  lastWeekdayOfMonth: "no último dia útil do mês",
+  onWeekdays,
+  lastWeekdayOf: (weekday) => `${isFeminine(weekday) ? "na última" : "no último"} ${weekday} do mês`,
+  nthWeekdayOf: (nth, weekday) => {
+    const words = isFeminine(weekday) ? NTH_FEMININE : NTH_MASCULINE;
+    return `${isFeminine(weekday) ? "na" : "no"} ${words[nth - 1] ?? `${nth}ª`} ${weekday} do mês`;
+  },
+
+  inMonths: (months) => `em ${months}`,
+  inYears: (years) => `em ${years}`,
+  either: (dayOfMonth, dayOfWeek) => `${dayOfMonth} ou ${dayOfWeek}`,
+  both: (dayOfMonth, dayOfWeek) => `${dayOfMonth}, se for ${dayOfWeek}`,
+};
@@ -0,0 +1,62 @@
+/** Step units a description can count in. */
+export type DescriptionUnit = "second" | "minute" | "hour" | "day" | "dayOfWeek" | "month" | "year";
+
+/**
+ * The phrases a schedule description is assembled from. Phrases are
+ * functions rather than templates so each language can handle its own word
+ * order, plurals and grammatical gender.
+ */
+export interface DescriptionLocale {
+  /** Name of the language in that language, for the language picker. */
+  name: string;
+  months: string[];
+  /** Sunday first. */
+  weekdays: string[];
+  /** Joins the parts of a description (time, days, months, years). */
+  separator: string;
+  list: (items: string[]) => string;
+
+  /** How plain numbers read in value lists of each field. */
+  minute: (value: number) => string;
+  hour: (value: number) => string;
+  day: (value: number) => string;
+  year: (value: number) => string;
+  range: (from: string, to: string) => string;
+
+  every: (step: number, unit: DescriptionUnit) => string;
+  stepBetween: (every: string, from: string, to: string) => string;
+  stepFrom: (every: string, from: string) => string;
+
+  /** Seconds of a Quartz or Spring expression, e.g. "at seconds 15 and 45". */
+  atSeconds: (seconds: string, plural: boolean) => string;
+  at: (times: string) => string;
+  everyMinute: string;
+  atMinutes: (minutes: string, plural: boolean, everyHour: boolean) => string;
+  duringHours: (hours: string, plural: boolean) => string;
+  betweenHours: (from: string, to: string) => string;
+
+  daysOfMonth: (days: string, plural: boolean) => string;
+  lastDayOfMonth: string;
+  daysBeforeLastDay: (days: number) => string;
+  nearestWeekday: (day: number) => string;
+  lastWeekdayOfMonth: string;
+  /** Weekday names and ranges of them, in the order written. */
+  onWeekdays: (weekdays: string[]) => string;
+  lastWeekdayOf: (weekday: string) => string;
+  nthWeekdayOf: (nth: number, weekday: string) => string;
+
+  inMonths: (months: string) => string;
+  inYears: (years: string) => string;
+  /** Unix cron firing on either day field. */
+  either: (dayOfMonth: string, dayOfWeek: string) => string;
+  /** Both day fields have to match. */
+  both: (dayOfMonth: string, dayOfWeek: string) => string;
+}
+
+/** `["a", "b", "c"]` → "a, b and c" with the given conjunction. */
+export const joinWith =
+  (conjunction: string, separator = ", ") =>
+  (items: string[]) =>
+    items.length <= 1
+      ? items[0] ?? ""
+      : `${items.slice(0, -1).join(separator)}${conjunction}${items[items.length - 1]}`;
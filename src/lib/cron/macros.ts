@@ -0,0 +1,18 @@
+/**
+ * Schedule macros and the five Unix fields each one stands for. Macros are
+ * matched case-sensitively, as cron and Kubernetes do.
+ */
+export const CRON_MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+/** Runs once when the cron daemon starts; there are no fields to expand it to. */
+export const REBOOT_MACRO = "@reboot";
+
+export const isCronMacro = (text: string) => Object.keys(CRON_MACROS).includes(text);
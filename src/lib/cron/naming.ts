@@ -0,0 +1,53 @@
+import { describeCron } from "./describe";
+import { parseCron } from "./parser";
+
+// Logical IDs may have up to 255 characters; keep names readable
+const MAX_NAME_LENGTH = 64;
+
+const words = (description: string) =>
+  description
+    .split(/\s+/)
+    .map((word) => word.replace(/[^A-Za-z0-9]/g, ""))
+    .filter(Boolean);
+
+/**
+ * CloudFormation logical ID for a schedule description, e.g. "At 09:00,
+ * Monday through Friday" -> "At0900MondayThroughFriday".
+ */
+export function toLogicalId(description: string, fallback = "Schedule"): string {
+  const id = words(description)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("")
+    .slice(0, MAX_NAME_LENGTH);
+  // IDs must start with a letter
+  return /^[A-Za-z]/.test(id) ? id : `${fallback}${id}`;
+}
+
+/** Terraform-style name for a schedule description, e.g. "at_0900_monday_through_friday". */
+export function toResourceName(description: string, fallback = "schedule"): string {
+  const name = words(description).join("_").toLowerCase().slice(0, MAX_NAME_LENGTH).replace(/_+$/, "");
+  return /^[a-z]/.test(name) ? name : `${fallback}_${name}`;
+}
+
+/** English description of an EventBridge expression, which resources are named after. */
+export const describeRule = (rule: string) => {
+  const { expression } = parseCron(rule, "eventbridge");
+  return expression ? describeCron(expression, "en") : rule;
+};
+
+/** Appends a suffix, shortening the name first so the result still fits. */
+export const withSuffix = (name: string, suffix: string, maxLength = MAX_NAME_LENGTH) =>
+  `${name.slice(0, Math.max(0, maxLength - suffix.length))}${suffix}`;
+
+/**
+ * Numbers names that come out the same, so split rules never collide; the
+ * numbered ones are shortened to stay within the name length limit.
+ */
+export const uniqueNames = (names: string[], separator = "") => {
+  const seen = new Map<string, number>();
+  return names.map((name) => {
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? withSuffix(name, `${separator}${count}`) : name;
+  });
+};
@@ -0,0 +1,399 @@
+import { DIALECT_FIELDS, type CronFieldSpec } from "./fields";
+import { JENKINS_HASH_LIMITS, JENKINS_MACROS, jenkinsHash } from "./jenkins";
+import { CRON_MACROS, REBOOT_MACRO, isCronMacro } from "./macros";
+import { parseOnCalendar } from "./systemd";
+import { isValidTimeZone } from "./timezone";
+import type {
+  CronDiagnostic,
+  CronDialect,
+  CronExpression,
+  CronField,
+  CronFieldName,
+  CronToken,
+  ParseOptions,
+  ParseResult,
+  RangeToken,
+  Span,
+  ValueToken,
+  WildcardToken,
+} from "./types";
+
+const DIALECT_LABELS: Record<CronDialect, string> = {
+  unix: "Unix cron",
+  eventbridge: "EventBridge cron",
+  quartz: "Quartz cron",
+  spring: "Spring cron",
+  kubernetes: "Kubernetes schedule",
+  github: "GitHub Actions schedule",
+  systemd: "systemd calendar event",
+  azure: "Azure NCRONTAB expression",
+  gcp: "Cloud Scheduler schedule",
+  jenkins: "Jenkins schedule",
+};
+
+// Dialects that accept `@hourly`-style macros in place of the fields
+const MACRO_DIALECTS: CronDialect[] = ["unix", "kubernetes", "jenkins"];
+
+// `CRON_TZ=Europe/Berlin 0 9 * * *`; Kubernetes also takes the older `TZ=`
+const TIME_ZONE_PREFIX = /^(\s*)((?:CRON_TZ|TZ)=(\S*))\s*/;
+
+const spanOf = (start: number, text: string): Span => ({ start, end: start + text.length });
+
+// "0-7 or SUN-SAT", shown when a value is neither a number nor a known name
+const expectedValues = ({ min, max, names }: CronFieldSpec) => {
+  const keys = names ? Object.keys(names) : [];
+  return keys.length ? `${min}-${max} or ${keys[0]}-${keys[keys.length - 1]}` : `${min}-${max}`;
+};
+
+const parseValue = (
+  text: string,
+  start: number,
+  spec: CronFieldSpec,
+  diagnostics: CronDiagnostic[]
+): ValueToken | undefined => {
+  const span = spanOf(start, text);
+  if (/^\d+$/.test(text)) {
+    return { kind: "value", value: Number(text), span };
+  }
+
+  const named = spec.names?.[text.toUpperCase()];
+  if (named !== undefined) {
+    return { kind: "value", value: named, name: text, span };
+  }
+
+  diagnostics.push({
+    severity: "error",
+    code: "invalid-value",
+    message: `"${text}" is not a valid ${spec.label} value (expected ${expectedValues(spec)})`,
+    field: spec.name,
+    span,
+  });
+  return undefined;
+};
+
+const parseRange = (
+  text: string,
+  start: number,
+  spec: CronFieldSpec,
+  diagnostics: CronDiagnostic[]
+): ValueToken | RangeToken | undefined => {
+  const dash = text.indexOf("-");
+  if (dash === -1) {
+    return parseValue(text, start, spec, diagnostics);
+  }
+
+  const from = parseValue(text.slice(0, dash), start, spec, diagnostics);
+  const to = parseValue(text.slice(dash + 1), start + dash + 1, spec, diagnostics);
+  if (!from || !to) return undefined;
+
+  return { kind: "range", start: from, end: to, span: spanOf(start, text) };
+};
+
+const parseToken = (
+  text: string,
+  start: number,
+  spec: CronFieldSpec,
+  diagnostics: CronDiagnostic[]
+): CronToken | undefined => {
+  const span = spanOf(start, text);
+
+  if (text === "") {
+    diagnostics.push({
+      severity: "error",
+      code: "empty-item",
+      message: `Empty list item in ${spec.label}`,
+      field: spec.name,
+      span: { start, end: start + 1 },
+    });
+    return undefined;
+  }
+
+  if (text === "*") return { kind: "wildcard", span };
+  if (text === "?") return { kind: "noSpecific", span };
+
+  const last = /^L(?:-(\d+))?$/i.exec(text);
+  if (last) {
+    return { kind: "last", offset: last[1] ? Number(last[1]) : 0, span };
+  }
+
+  const nearest = /^(\d+|L)W$/i.exec(text);
+  if (nearest) {
+    const day = nearest[1].toUpperCase() === "L" ? "last" : Number(nearest[1]);
+    return { kind: "nearestWeekday", day, span };
+  }
+
+  const nth = /^([^#]+)#(\d+)$/.exec(text);
+  if (nth) {
+    const weekday = parseValue(nth[1], start, spec, diagnostics);
+    return weekday && { kind: "nthWeekday", weekday, nth: Number(nth[2]), span };
+  }
+
+  // `5L` / `FRIL` — but never swallow a plain name such as JUL
+  const lastWeekday = /^(.+)L$/i.exec(text);
+  if (lastWeekday && !text.includes("/") && !text.includes("-") && spec.names?.[text.toUpperCase()] === undefined) {
+    const weekday = parseValue(lastWeekday[1], start, spec, diagnostics);
+    return weekday && { kind: "lastWeekday", weekday, span };
+  }
+
+  const slash = text.indexOf("/");
+  if (slash !== -1) {
+    const baseText = text.slice(0, slash);
+    const stepText = text.slice(slash + 1);
+    if (!/^\d+$/.test(stepText)) {
+      diagnostics.push({
+        severity: "error",
+        code: "invalid-step",
+        message: `Step "${stepText}" in ${spec.label} must be a whole number`,
+        field: spec.name,
+        span: spanOf(start + slash + 1, stepText),
+      });
+      return undefined;
+    }
+
+    const base: WildcardToken | ValueToken | RangeToken | undefined =
+      baseText === "*"
+        ? { kind: "wildcard", span: spanOf(start, baseText) }
+        : parseRange(baseText, start, spec, diagnostics);
+    return base && { kind: "step", base, step: Number(stepText), span };
+  }
+
+  return parseRange(text, start, spec, diagnostics);
+};
+
+// Jenkins `H`, `H/step`, `H(a-b)` and `H(a-b)/step`
+const HASH_ITEM = /^H(?:\((\d+)-(\d+)\))?(?:\/(\d+))?$/;
+
+type Hash = (bound: number) => number;
+
+// Resolves a Jenkins hash item to the plain token Jenkins would pick, with its
+// cron spelling so the field source no longer mentions `H`
+const parseHash = (
+  text: string,
+  start: number,
+  spec: CronFieldSpec,
+  hash: Hash,
+  diagnostics: CronDiagnostic[]
+): { token: CronToken; resolved: string } | undefined => {
+  const span = spanOf(start, text);
+  const error = (code: string, message: string) => {
+    diagnostics.push({ severity: "error", code, message, field: spec.name, span });
+    return undefined;
+  };
+
+  const [, from, to, stepText] = HASH_ITEM.exec(text);
+  const min = from ? Number(from) : spec.min;
+  const max = to ? Number(to) : (JENKINS_HASH_LIMITS[spec.name] ?? spec.max);
+  const step = stepText ? Number(stepText) : 1;
+  if (min < spec.min || max > spec.max || min > max) {
+    return error(
+      "invalid-hash-range",
+      `Hash range ${min}-${max} must lie within ${spec.label} ${spec.min}-${spec.max}`
+    );
+  }
+  if (step < 1 || step > max - min + 1) {
+    return error(
+      "invalid-step",
+      `Step ${step} in ${spec.label} must be between 1 and ${max - min + 1}, the size of the range`
+    );
+  }
+
+  // A step of 1 picks one value rather than stepping through all of them
+  const first = min + hash(step > 1 ? step : max - min + 1);
+  const value: ValueToken = { kind: "value", value: first, span };
+  const end: ValueToken = { kind: "value", value: max, span };
+  const result: { token: CronToken; resolved: string } =
+    step === 1
+      ? { token: value, resolved: String(first) }
+      : max === spec.max
+        ? { token: { kind: "step", base: value, step, span }, resolved: `${first}/${step}` }
+        : {
+            token: { kind: "step", base: { kind: "range", start: value, end, span }, step, span },
+            resolved: `${first}-${max}/${step}`,
+          };
+
+  diagnostics.push({
+    severity: "info",
+    code: "jenkins-hash",
+    message: `${text} in ${spec.label} resolves to ${result.resolved}`,
+    field: spec.name,
+    span,
+  });
+  return result;
+};
+
+const parseField = (
+  text: string,
+  start: number,
+  spec: CronFieldSpec,
+  diagnostics: CronDiagnostic[],
+  hash?: Hash
+): CronField => {
+  const items: CronToken[] = [];
+  const sources: string[] = [];
+  let offset = start;
+  for (const item of text.split(",")) {
+    const hashed = hash && HASH_ITEM.test(item);
+    const parsed = hashed ? parseHash(item, offset, spec, hash, diagnostics) : undefined;
+    const token = hashed ? parsed?.token : parseToken(item, offset, spec, diagnostics);
+    if (token) items.push(token);
+    sources.push(parsed?.resolved ?? item);
+    offset += item.length + 1;
+  }
+  return { name: spec.name, source: sources.join(","), span: spanOf(start, text), items };
+};
+
+// Every node of an expanded macro points at the macro itself
+const withSpan = <T>(node: T, span: Span): T => {
+  if (Array.isArray(node)) return node.map((item) => withSpan(item, span)) as T;
+  if (typeof node !== "object" || node === null) return node;
+  return Object.fromEntries(
+    Object.entries(node).map(([key, value]) => [key, key === "span" ? span : withSpan(value, span)])
+  ) as T;
+};
+
+interface Prefix {
+  body: string;
+  offset: number;
+  timeZone?: CronExpression["timeZone"];
+}
+
+const splitTimeZone = (source: string, diagnostics: CronDiagnostic[]): Prefix => {
+  const match = TIME_ZONE_PREFIX.exec(source);
+  if (!match) return { body: source, offset: 0 };
+
+  const [prefix, indent, assignment, name] = match;
+  const span = spanOf(indent.length, assignment);
+  const rest = { body: source.slice(prefix.length), offset: prefix.length };
+  if (!isValidTimeZone(name)) {
+    diagnostics.push({
+      severity: "error",
+      code: "invalid-time-zone",
+      message: name ? `Unknown time zone "${name}"` : "Missing time zone after the equals sign",
+      span: name ? spanOf(span.end - name.length, name) : span,
+    });
+    return rest;
+  }
+  return { ...rest, timeZone: { name, span } };
+};
+
+/** Strips an optional `cron(...)` wrapper, remembering where the body starts. */
+export function unwrapCron(source: string): { body: string; offset: number } {
+  const wrapped = /^(\s*cron\()(.*)\)\s*$/i.exec(source);
+  return wrapped ? { body: wrapped[2], offset: wrapped[1].length } : { body: source, offset: 0 };
+}
+
+/**
+ * Parses an expression into a field-level AST. Only syntax is checked here;
+ * range and dialect rules live in the validator. Every field follows
+ *
+ *   field = item ("," item)*
+ *   item  = "*" | "?" | base ["/" number] | "L" ["-" number]
+ *         | (number | "L") "W" | value "L" | value "#" number
+ *   base  = "*" | value ["-" value]
+ *   value = number | name
+ *
+ * and anything else is reported with the span of the item that broke it.
+ * Unix, Kubernetes and Jenkins schedules may be a macro such as `@hourly`
+ * instead of fields, and Kubernetes ones may start with a `CRON_TZ=<zone>`
+ * prefix. Jenkins `H` items are resolved to concrete values here, seeded
+ * from `options.jobName`. systemd calendar events have a
+ * grammar of their own; see `parseOnCalendar`.
+ */
+export function parseCron(source: string, dialect: CronDialect = "unix", options: ParseOptions = {}): ParseResult {
+  if (dialect === "systemd") return parseOnCalendar(source);
+  const specs = DIALECT_FIELDS[dialect];
+  const diagnostics: CronDiagnostic[] = [];
+  const { body, offset, timeZone }: Prefix =
+    dialect === "eventbridge"
+      ? unwrapCron(source)
+      : dialect === "kubernetes"
+        ? splitTimeZone(source, diagnostics)
+        : { body: source, offset: 0 };
+
+  const trimmed = body.trim();
+  if (MACRO_DIALECTS.includes(dialect) && trimmed.startsWith("@")) {
+    const span = spanOf(offset + body.indexOf(trimmed), trimmed);
+    if (trimmed === REBOOT_MACRO) {
+      diagnostics.push({
+        severity: "error",
+        code: "reboot-macro",
+        message: `${REBOOT_MACRO} runs once when the machine boots rather than at a time of day, so it has no EventBridge schedule equivalent. Trigger the job from an EventBridge event pattern instead (e.g. EC2 Instance State-change Notification with state "running"), or from a systemd service or instance user data.`,
+        span,
+      });
+      return { diagnostics };
+    }
+    if (!isCronMacro(trimmed)) {
+      diagnostics.push({
+        severity: "error",
+        code: "unknown-macro",
+        message: `"${trimmed}" is not a ${DIALECT_LABELS[dialect]} macro (expected ${Object.keys(CRON_MACROS).join(
+          ", "
+        )})`,
+        span,
+      });
+      return { diagnostics };
+    }
+    const fields = (dialect === "jenkins" ? JENKINS_MACROS : CRON_MACROS)[trimmed];
+    diagnostics.push({
+      severity: "info",
+      code: "macro-expanded",
+      message: `${trimmed} is shorthand for "${fields}"`,
+      span,
+    });
+    const expanded = parseCron(fields, dialect, options);
+    const { expression } = expanded;
+    diagnostics.push(...withSpan(expanded.diagnostics, span));
+    return {
+      expression: expression && { ...withSpan(expression, span), source, timeZone, macro: trimmed },
+      diagnostics,
+    };
+  }
+
+  const parts = [...body.matchAll(/\S+/g)];
+
+  const required = specs.filter((spec) => !spec.optional).length;
+  if (parts.length < required || parts.length > specs.length) {
+    const count = required === specs.length ? `exactly ${required}` : `${required} or ${specs.length}`;
+    diagnostics.push({
+      severity: "error",
+      code: "field-count",
+      message: `${DIALECT_LABELS[dialect]} must have ${count} fields: ${specs
+        .map((spec) => (spec.optional ? `[${spec.label}]` : spec.label))
+        .join(" ")}`,
+      span: { start: 0, end: source.length },
+    });
+    return { diagnostics };
+  }
+
+  // One generator per schedule: each `H` draws the next value, left to right
+  const hash = dialect === "jenkins" ? jenkinsHash(options.jobName) : undefined;
+  const fields = parts.map((part, index) =>
+    parseField(part[0], offset + (part.index ?? 0), specs[index], diagnostics, hash)
+  );
+  if (hash && !options.jobName && diagnostics.some((diagnostic) => diagnostic.code === "jenkins-hash")) {
+    diagnostics.push({
+      severity: "warning",
+      code: "jenkins-hash-unseeded",
+      message:
+        "Without a job name H resolves to the lowest value it allows. Enter the job's full name to get the times Jenkins actually uses for it.",
+    });
+  }
+  const byName: Partial<Record<CronFieldName, CronField>> = Object.fromEntries(
+    fields.map((field) => [field.name, field])
+  );
+
+  const expression: CronExpression = {
+    dialect,
+    source,
+    second: byName.second,
+    minute: byName.minute,
+    hour: byName.hour,
+    dayOfMonth: byName.dayOfMonth,
+    month: byName.month,
+    dayOfWeek: byName.dayOfWeek,
+    year: byName.year,
+    timeZone,
+  };
+
+  return { expression, diagnostics };
+}
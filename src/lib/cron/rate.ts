@@ -0,0 +1,236 @@
+import { CronSyntaxError } from "./errors";
+import { expandField } from "./expand";
+import { getFieldSpec, weekdayIndex } from "./fields";
+import type { CronDiagnostic, CronDialect, CronExpression, CronField } from "./types";
+import type { UnixConversion } from "./unix";
+
+export type RateUnit = "minute" | "hour" | "day";
+
+/** A parsed `rate(value unit)` expression. */
+export interface RateExpression {
+  value: number;
+  unit: RateUnit;
+}
+
+export interface RateParseResult {
+  rate?: RateExpression;
+  diagnostics: CronDiagnostic[];
+}
+
+export interface RateSimplification {
+  /** The equivalent `rate(...)` expression, when the schedule is a fixed interval. */
+  rate?: string;
+  diagnostics: CronDiagnostic[];
+}
+
+const UNIT_MINUTES: Record<RateUnit, number> = { minute: 1, hour: 60, day: 1440 };
+
+const RATE_PATTERN = /^(\s*rate\(\s*)(\S*)(\s*)([^\s)]*)\s*\)\s*$/i;
+
+export const isRateExpression = (source: string) => /^\s*rate\(/i.test(source);
+
+/** Formats a rate the way EventBridge requires: singular unit for 1, plural otherwise. */
+export function formatRate({ value, unit }: RateExpression): string {
+  return `rate(${value} ${unit}${value === 1 ? "" : "s"})`;
+}
+
+/** Parses `rate(5 minutes)`; EventBridge rejects `rate(1 minutes)` and `rate(5 minute)`, so this does too. */
+export function parseRate(source: string): RateParseResult {
+  const match = RATE_PATTERN.exec(source);
+  if (!match) {
+    return {
+      diagnostics: [
+        {
+          severity: "error",
+          code: "invalid-rate",
+          message: "Rate expressions must look like rate(value unit), e.g. rate(5 minutes) or rate(1 day)",
+          span: { start: 0, end: source.length },
+        },
+      ],
+    };
+  }
+
+  const [, prefix, valueText, gap, unitText] = match;
+  const valueSpan = { start: prefix.length, end: prefix.length + valueText.length };
+  const unitStart = valueSpan.end + gap.length;
+  const unitSpan = { start: unitStart, end: unitStart + unitText.length };
+  const diagnostics: CronDiagnostic[] = [];
+
+  const value = /^\d+$/.test(valueText) ? Number(valueText) : NaN;
+  if (!(value > 0)) {
+    diagnostics.push({
+      severity: "error",
+      code: "invalid-rate",
+      message: `Rate value "${valueText}" must be a positive whole number`,
+      span: valueSpan,
+    });
+  }
+
+  const unit = unitText.toLowerCase().replace(/s$/, "") as RateUnit;
+  if (!Object.keys(UNIT_MINUTES).includes(unit)) {
+    diagnostics.push({
+      severity: "error",
+      code: "invalid-rate",
+      message: `Rate unit "${unitText}" must be minute(s), hour(s) or day(s)`,
+      span: unitSpan,
+    });
+  } else if (value > 0 && unitText.toLowerCase() !== (value === 1 ? unit : `${unit}s`)) {
+    diagnostics.push({
+      severity: "error",
+      code: "rate-unit-plural",
+      message: `EventBridge requires "${value === 1 ? unit : `${unit}s`}" for a value of ${value}`,
+      span: unitSpan,
+    });
+  }
+
+  return diagnostics.length ? { diagnostics } : { rate: { value, unit }, diagnostics };
+}
+
+// The largest unit that expresses the interval exactly, so 120 minutes is `rate(2 hours)`
+const rateFromMinutes = (minutes: number): RateExpression => {
+  if (minutes % UNIT_MINUTES.day === 0) return { value: minutes / UNIT_MINUTES.day, unit: "day" };
+  if (minutes % UNIT_MINUTES.hour === 0) return { value: minutes / UNIT_MINUTES.hour, unit: "hour" };
+  return { value: minutes, unit: "minute" };
+};
+
+const isUnrestricted = (field: CronField, dialect: CronDialect) => {
+  if (field.items.length === 1 && field.items[0].kind === "noSpecific") return true;
+  const spec = getFieldSpec(dialect, field.name);
+  const values = expandField(field, spec);
+  if (!values) return false;
+  // Unix day-of-week has 7 as a second Sunday, so 0-6 already covers the week
+  return field.name === "dayOfWeek"
+    ? new Set(values.map((value) => weekdayIndex(dialect, value))).size === 7
+    : values.length === spec.max - spec.min + 1;
+};
+
+const isWholeMinute = (field?: CronField) =>
+  !field || (field.items.length === 1 && field.items[0].kind === "value" && field.items[0].value === 0);
+
+interface Spacing {
+  /** Equal gap between values, wrap-around included; undefined when uneven. */
+  interval?: number;
+  /** Set when the values are evenly spaced except across the wrap, as with a step of 7 minutes. */
+  wrapGap?: number;
+  gap?: number;
+}
+
+// Spacing of a sorted value list within a cycle (60 minutes or 24 hours)
+const spacing = (values: number[], cycle: number): Spacing => {
+  if (values.length === 1) return { interval: cycle };
+  const gaps = values.slice(1).map((value, index) => value - values[index]);
+  const wrapGap = values[0] + cycle - values[values.length - 1];
+  if (gaps.some((gap) => gap !== gaps[0])) return {};
+  return wrapGap === gaps[0] ? { interval: gaps[0] } : { wrapGap, gap: gaps[0] };
+};
+
+const notFixed = (field: CronField, unit: string, { gap, wrapGap }: Spacing, reset: string): CronDiagnostic => ({
+  severity: "info",
+  code: "not-fixed-interval",
+  message: `"${field.source}" restarts at ${reset}, so the last gap is ${wrapGap} ${unit}s instead of ${gap}. It is not a fixed interval, so rate(${gap} ${unit}s) would drift away from the crontab's times.`,
+  field: field.name,
+  span: field.span,
+});
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Detects Unix, Quartz or Spring expressions that fire at a fixed interval
+ * and returns the equivalent `rate()` form. Steps that do not divide the hour or day (such as
+ * every 7th minute) reset every cycle and are reported instead.
+ */
+export function cronToRate(expression: CronExpression): RateSimplification {
+  const { dialect, second, minute, hour, dayOfMonth, month, dayOfWeek, year } = expression;
+  const days = year ? [dayOfMonth, month, dayOfWeek, year] : [dayOfMonth, month, dayOfWeek];
+  if (!isWholeMinute(second) || !days.every((field) => isUnrestricted(field, dialect))) return { diagnostics: [] };
+
+  const minutes = expandField(minute, getFieldSpec(dialect, "minute"));
+  const hours = expandField(hour, getFieldSpec(dialect, "hour"));
+  if (!minutes || !hours) return { diagnostics: [] };
+
+  const minuteSpacing = spacing(minutes, 60);
+  const hourSpacing = spacing(hours, 24);
+  let interval: number | undefined;
+  let diagnostic: CronDiagnostic | undefined;
+
+  if (hours.length === 24) {
+    interval = minuteSpacing.interval;
+    if (minuteSpacing.wrapGap !== undefined) diagnostic = notFixed(minute, "minute", minuteSpacing, "minute 0 every hour");
+  } else if (minutes.length === 1) {
+    interval = hourSpacing.interval === undefined ? undefined : hourSpacing.interval * 60;
+    if (hourSpacing.wrapGap !== undefined) diagnostic = notFixed(hour, "hour", hourSpacing, "midnight every day");
+  }
+
+  if (interval === undefined) return { diagnostics: diagnostic ? [diagnostic] : [] };
+
+  const rate = formatRate(rateFromMinutes(interval));
+  const diagnostics: CronDiagnostic[] = [];
+  if (interval > 1) {
+    const first = `${pad(hours.length === 24 ? 0 : hours[0])}:${pad(minutes[0])}`;
+    diagnostics.push({
+      severity: "info",
+      code: "rate-phase",
+      message: `${rate} fires at the same interval, but counts from when the rule is created rather than from ${first}. Keep the cron form if the runs must land on those exact times.`,
+    });
+  }
+  return { rate, diagnostics };
+}
+
+/**
+ * Emits a crontab line for a rate. Intervals that do not divide an hour, a day
+ * or a month evenly have no crontab equivalent and are reported as errors.
+ */
+export function rateToUnix(rate: RateExpression): UnixConversion {
+  const minutes = rate.value * UNIT_MINUTES[rate.unit];
+  const hours = minutes / 60;
+  const days = minutes / UNIT_MINUTES.day;
+  const diagnostics: CronDiagnostic[] = [
+    {
+      severity: "info",
+      code: "rate-phase",
+      message: `${formatRate(rate)} counts from when the rule was created; the crontab line is aligned to the start of the hour, day or week instead.`,
+    },
+  ];
+
+  let line: string | undefined;
+  if (minutes < 60 && 60 % minutes === 0) {
+    line = minutes === 1 ? "* * * * *" : `*/${minutes} * * * *`;
+  } else if (Number.isInteger(hours) && hours < 24 && 24 % hours === 0) {
+    line = hours === 1 ? "0 * * * *" : `0 */${hours} * * *`;
+  } else if (days === 1) {
+    line = "0 0 * * *";
+  } else if (days === 7) {
+    line = "0 0 * * 0";
+  } else if (Number.isInteger(days) && days <= 31) {
+    line = `0 0 */${days} * *`;
+    diagnostics.push({
+      severity: "warning",
+      code: "day-step-resets",
+      message: `*/${days} in day-of-month restarts on the 1st of every month, so the gap at the end of each month is shorter than ${days} days.`,
+      field: "dayOfMonth",
+    });
+  }
+
+  if (!line) {
+    return {
+      lines: [],
+      diagnostics: [
+        {
+          severity: "error",
+          code: "no-unix-equivalent",
+          message: `${formatRate(rate)} has no crontab equivalent because the interval does not divide an hour, a day or a month evenly. Schedule a shorter interval that does and skip runs in the command instead.`,
+        },
+      ],
+    };
+  }
+  return { lines: [line], diagnostics };
+}
+
+/** Parses and converts a rate expression in one go. */
+export function convertRateToUnix(source: string): UnixConversion {
+  const { rate, diagnostics } = parseRate(source);
+  if (!rate) {
+    throw new CronSyntaxError(diagnostics);
+  }
+  return rateToUnix(rate);
+}
@@ -0,0 +1,188 @@
+import { expandField, expandToken } from "./expand";
+import { getFieldSpec, matchesEitherDay, weekdayIndex } from "./fields";
+import { fromZonedParts, toZonedParts } from "./timezone";
+import type { CronExpression, CronField, CronToken } from "./types";
+
+export interface NextRunsOptions {
+  /** Number of fire times to return. */
+  count?: number;
+  /** Exclusive lower bound; defaults to now. */
+  from?: Date;
+  /** IANA zone whose wall clock the expressions are evaluated in; defaults to UTC. */
+  timeZone?: string;
+}
+
+// Give up after this many days without a match (e.g. `0 0 30 2 *` never fires)
+const SEARCH_LIMIT_DAYS = 366 * 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CalendarDay {
+  year: number;
+  /** 1-12 */
+  month: number;
+  /** 1-31 */
+  day: number;
+  /** 0=Sunday ... 6=Saturday */
+  weekday: number;
+  daysInMonth: number;
+}
+
+interface CompiledSchedule {
+  minutes: number[];
+  hours: number[];
+  months: Set<number>;
+  years?: Set<number>;
+  matchesDay: (date: CalendarDay) => boolean;
+}
+
+const isWeekday = (weekday: number) => weekday >= 1 && weekday <= 5;
+
+const nearestWeekday = (target: number, date: CalendarDay) => {
+  const day = Math.min(target, date.daysInMonth);
+  const weekday = (date.weekday + day - date.day + 35) % 7;
+  if (isWeekday(weekday)) return day;
+  if (weekday === 6) return day === 1 ? day + 2 : day - 1;
+  return day === date.daysInMonth ? day - 2 : day + 1;
+};
+
+const dayOfMonthMatcher = (field: CronField, expression: CronExpression) => {
+  const spec = getFieldSpec(expression.dialect, "dayOfMonth");
+  const tokenMatches = (token: CronToken, date: CalendarDay): boolean => {
+    switch (token.kind) {
+      case "noSpecific":
+        return true;
+      case "last":
+        return date.day === date.daysInMonth - token.offset;
+      case "nearestWeekday":
+        return date.day === nearestWeekday(token.day === "last" ? date.daysInMonth : token.day, date);
+      default:
+        return expandToken(token, spec)?.includes(date.day) ?? false;
+    }
+  };
+  return (date: CalendarDay) => field.items.some((token) => tokenMatches(token, date));
+};
+
+const dayOfWeekMatcher = (field: CronField, expression: CronExpression) => {
+  const spec = getFieldSpec(expression.dialect, "dayOfWeek");
+  const tokenMatches = (token: CronToken, date: CalendarDay): boolean => {
+    switch (token.kind) {
+      case "noSpecific":
+        return true;
+      case "last":
+        return date.weekday === 6;
+      case "lastWeekday":
+        return date.weekday === weekdayIndex(expression.dialect, token.weekday.value) && date.day + 7 > date.daysInMonth;
+      case "nthWeekday":
+        return (
+          date.weekday === weekdayIndex(expression.dialect, token.weekday.value) && Math.ceil(date.day / 7) === token.nth
+        );
+      default:
+        return (
+          expandToken(token, spec)?.some((value) => weekdayIndex(expression.dialect, value) === date.weekday) ?? false
+        );
+    }
+  };
+  return (date: CalendarDay) => field.items.some((token) => tokenMatches(token, date));
+};
+
+const isUnrestricted = (field: CronField) =>
+  field.items.length === 1 && (field.items[0].kind === "wildcard" || field.items[0].kind === "noSpecific");
+
+const compile = (expression: CronExpression): CompiledSchedule => {
+  const { dialect, minute, hour, dayOfMonth, month, dayOfWeek, year } = expression;
+  const values = (field: CronField) => expandField(field, getFieldSpec(dialect, field.name)) ?? [];
+
+  const dayOfMonthMatches = dayOfMonthMatcher(dayOfMonth, expression);
+  const dayOfWeekMatches = dayOfWeekMatcher(dayOfWeek, expression);
+
+  let matchesDay: (date: CalendarDay) => boolean;
+  if (matchesEitherDay(dialect) && !dayOfMonth.source.startsWith("*") && !dayOfWeek.source.startsWith("*")) {
+    // Vixie cron: both day fields restricted means either may match
+    matchesDay = (date) => dayOfMonthMatches(date) || dayOfWeekMatches(date);
+  } else if (isUnrestricted(dayOfWeek)) {
+    matchesDay = dayOfMonthMatches;
+  } else if (isUnrestricted(dayOfMonth)) {
+    matchesDay = dayOfWeekMatches;
+  } else {
+    matchesDay = (date) => dayOfMonthMatches(date) && dayOfWeekMatches(date);
+  }
+
+  return {
+    minutes: values(minute),
+    hours: values(hour),
+    months: new Set(values(month)),
+    years: year && !isUnrestricted(year) ? new Set(values(year)) : undefined,
+    matchesDay,
+  };
+};
+
+const calendarDay = (time: number): CalendarDay => {
+  const date = new Date(time);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + 1;
+  return {
+    year,
+    month,
+    day: date.getUTCDate(),
+    weekday: date.getUTCDay(),
+    daysInMonth: new Date(Date.UTC(year, month, 0)).getUTCDate(),
+  };
+};
+
+/**
+ * Returns a predicate telling whether any of the expressions fires at least
+ * once on the given calendar date (month is 1-12).
+ */
+export function dayMatcher(
+  expressions: CronExpression | CronExpression[]
+): (year: number, month: number, day: number) => boolean {
+  const schedules = (Array.isArray(expressions) ? expressions : [expressions]).map(compile);
+  return (year, month, day) => {
+    const date = calendarDay(Date.UTC(year, month - 1, day));
+    return schedules.some(
+      (schedule) =>
+        (!schedule.years || schedule.years.has(year)) && schedule.months.has(month) && schedule.matchesDay(date)
+    );
+  };
+}
+
+/**
+ * Enumerates upcoming fire times of one or more expressions. When several are
+ * given — e.g. the rules of a split conversion — the result is the merged,
+ * de-duplicated union of their schedules.
+ */
+export function nextRuns(expressions: CronExpression | CronExpression[], options: NextRunsOptions = {}): Date[] {
+  const { count = 10, from = new Date(), timeZone } = options;
+  const schedules = (Array.isArray(expressions) ? expressions : [expressions]).map(compile);
+  const runs: Date[] = [];
+
+  const start = Math.floor(from.getTime() / 60000) * 60000 + 60000;
+  // Days are walked on the zone's calendar; `dayStart` is that date at 00:00 UTC
+  const local = timeZone ? toZonedParts(new Date(start), timeZone) : undefined;
+  let dayStart = local ? Date.UTC(local.year, local.month - 1, local.day) : Math.floor(start / DAY_MS) * DAY_MS;
+  const toInstant = (hour: number, minute: number) => {
+    if (!timeZone) return dayStart + (hour * 60 + minute) * 60000;
+    const { year, month, day } = calendarDay(dayStart);
+    return fromZonedParts({ year, month, day, hour, minute }, timeZone).getTime();
+  };
+
+  for (let days = 0; days < SEARCH_LIMIT_DAYS && runs.length < count; days++, dayStart += DAY_MS) {
+    const date = calendarDay(dayStart);
+    const times = new Set<number>();
+
+    for (const schedule of schedules) {
+      if (schedule.years && !schedule.years.has(date.year)) continue;
+      if (!schedule.months.has(date.month) || !schedule.matchesDay(date)) continue;
+      for (const hour of schedule.hours) {
+        for (const minute of schedule.minutes) {
+          const time = toInstant(hour, minute);
+          if (time >= start) times.add(time);
+        }
+      }
+    }
+
+    [...times].sort((a, b) => a - b).forEach((time) => runs.length < count && runs.push(new Date(time)));
+  }
+
+  return runs;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { parseCron } from "./parser";
+import { toSchedulerSchedules, validateSchedulerOptions } from "./scheduler";
+
+describe("toSchedulerSchedules dates", () => {
+  const { expression } = parseCron("0 9 * * *");
+
+  it("reads zone-less dates in the schedule's zone", () => {
+    const [schedule] = toSchedulerSchedules(expression, {
+      timeZone: "Europe/Berlin",
+      startDate: "2030-01-15T09:00",
+      endDate: "2030-07-15T09:00:30",
+    }).schedules;
+    expect(schedule.StartDate).toBe("2030-01-15T08:00:00.000Z");
+    expect(schedule.EndDate).toBe("2030-07-15T07:00:30.000Z");
+  });
+
+  it("reads zone-less dates in UTC without a zone", () => {
+    const [schedule] = toSchedulerSchedules(expression, { startDate: "2030-01-15T09:00" }).schedules;
+    expect(schedule.StartDate).toBe("2030-01-15T09:00:00.000Z");
+  });
+
+  it("keeps explicit offsets", () => {
+    const [schedule] = toSchedulerSchedules(expression, {
+      timeZone: "Europe/Berlin",
+      startDate: "2030-01-15T09:00:00-05:00",
+    }).schedules;
+    expect(schedule.StartDate).toBe("2030-01-15T14:00:00.000Z");
+  });
+
+  it("compares the dates in the schedule's zone", () => {
+    const diagnostics = validateSchedulerOptions({
+      timeZone: "Asia/Tokyo",
+      startDate: "2030-01-15T09:00",
+      endDate: "2030-01-15T08:30:00Z",
+    });
+    expect(diagnostics.map(({ code }) => code)).toEqual([]);
+  });
+});
+
+describe("toSchedulerSchedules names", () => {
+  it("shortens split schedule names to fit 64 characters", () => {
+    const name = "n".repeat(64);
+    const { schedules, diagnostics } = toSchedulerSchedules(parseCron("0 9 1-7 * 1").expression, { name });
+    expect(schedules.map(({ Name }) => Name)).toEqual([`${"n".repeat(62)}-1`, `${"n".repeat(62)}-2`]);
+    expect(diagnostics.map(({ code }) => code)).not.toContain("invalid-name");
+  });
+});
@@ -0,0 +1,134 @@
+import { toEventBridge } from "./eventbridge";
+import { withSuffix } from "./naming";
+import { fromZonedParts, isValidTimeZone } from "./timezone";
+import type { CronDiagnostic, CronExpression } from "./types";
+
+export interface SchedulerOptions {
+  /** Schedule name; a numeric suffix is added when the conversion is split, shortening the name to fit. */
+  name?: string;
+  /** IANA zone for `ScheduleExpressionTimezone`, by default the expression's own; Scheduler handles DST itself. */
+  timeZone?: string;
+  /**
+   * ISO 8601 timestamps bounding when the schedule is active. Values without an
+   * offset, as `datetime-local` inputs give them, are read in `timeZone`.
+   */
+  startDate?: string;
+  endDate?: string;
+  /** Flexible time window in minutes; 0 or undefined turns it off. */
+  flexibleWindowMinutes?: number;
+}
+
+/** Shape accepted by `aws scheduler create-schedule --cli-input-json`. */
+export interface SchedulerSchedule {
+  Name: string;
+  ScheduleExpression: string;
+  ScheduleExpressionTimezone?: string;
+  FlexibleTimeWindow: { Mode: "OFF" | "FLEXIBLE"; MaximumWindowInMinutes?: number };
+  StartDate?: string;
+  EndDate?: string;
+  State: "ENABLED";
+  Target: { Arn: string; RoleArn: string };
+}
+
+export interface SchedulerConversion {
+  schedules: SchedulerSchedule[];
+  diagnostics: CronDiagnostic[];
+}
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+// `new Date()` would read a zone-less value in the zone of whoever runs the conversion
+const parseDate = (value: string, timeZone = "UTC") => {
+  const match = LOCAL_DATE_TIME.exec(value);
+  if (!match || !isValidTimeZone(timeZone)) return new Date(match ? `${value}Z` : value);
+  const [year, month, day, hour, minute, second] = match.slice(1).map((part) => Number(part ?? 0));
+  return new Date(fromZonedParts({ year, month, day, hour, minute }, timeZone).getTime() + second * 1000);
+};
+
+// Invalid dates are passed through untouched; validation reports them
+const toTimestamp = (value: string, timeZone?: string) => {
+  const date = parseDate(value, timeZone);
+  return isNaN(date.getTime()) ? value : date.toISOString();
+};
+
+const NAME_PATTERN = /^[0-9a-zA-Z\-_.]{1,64}$/;
+const MAX_FLEXIBLE_WINDOW = 1440;
+
+/** Checks the Scheduler-specific settings, independently of the expression. */
+export function validateSchedulerOptions(options: SchedulerOptions): CronDiagnostic[] {
+  const diagnostics: CronDiagnostic[] = [];
+  const error = (code: string, message: string) => diagnostics.push({ severity: "error", code, message });
+  const { name = "cron-schedule", timeZone, startDate, endDate, flexibleWindowMinutes } = options;
+
+  if (!NAME_PATTERN.test(name)) {
+    error("invalid-name", "Schedule name must be 1-64 characters of letters, digits, '-', '_' or '.'");
+  }
+
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    error("invalid-time-zone", `Unknown time zone "${timeZone}"`);
+  }
+
+  if (
+    flexibleWindowMinutes !== undefined &&
+    flexibleWindowMinutes !== 0 &&
+    (!Number.isInteger(flexibleWindowMinutes) || flexibleWindowMinutes < 1 || flexibleWindowMinutes > MAX_FLEXIBLE_WINDOW)
+  ) {
+    error("invalid-window", `Flexible time window must be a whole number of minutes between 1 and ${MAX_FLEXIBLE_WINDOW}`);
+  }
+
+  const start = startDate ? parseDate(startDate, timeZone) : undefined;
+  const end = endDate ? parseDate(endDate, timeZone) : undefined;
+  if (start && isNaN(start.getTime())) error("invalid-start-date", `Start date "${startDate}" is not a valid date`);
+  if (end && isNaN(end.getTime())) error("invalid-end-date", `End date "${endDate}" is not a valid date`);
+
+  if (start && end && start.getTime() >= end.getTime()) {
+    error("invalid-date-range", "End date must be after the start date");
+  } else if (end && end.getTime() < Date.now()) {
+    diagnostics.push({
+      severity: "warning",
+      code: "end-date-passed",
+      message: "End date is in the past, so the schedule will never run",
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Builds EventBridge Scheduler schedule definitions for a parsed Unix, Quartz
+ * or Spring expression. Unlike classic rules, Scheduler evaluates the
+ * expression in `ScheduleExpressionTimezone`, so hours are not shifted and no
+ * DST split is needed; the day-field split for Unix OR semantics still applies.
+ */
+export function toSchedulerSchedules(expression: CronExpression, options: SchedulerOptions = {}): SchedulerConversion {
+  const { name = "cron-schedule", startDate, endDate, flexibleWindowMinutes } = options;
+  const timeZone = options.timeZone ?? expression.timeZone?.name;
+  // Scheduler keeps the expression in its own zone, so it must not be shifted
+  const conversion = toEventBridge({ ...expression, timeZone: undefined });
+  const diagnostics = [...conversion.diagnostics, ...validateSchedulerOptions({ ...options, timeZone })];
+
+  const schedules = conversion.rules.map(
+    (rule, index): SchedulerSchedule => ({
+      Name: conversion.rules.length > 1 ? withSuffix(name, `-${index + 1}`) : name,
+      ScheduleExpression: `cron(${rule})`,
+      ...(timeZone && timeZone !== "UTC" ? { ScheduleExpressionTimezone: timeZone } : {}),
+      FlexibleTimeWindow: flexibleWindowMinutes
+        ? { Mode: "FLEXIBLE", MaximumWindowInMinutes: flexibleWindowMinutes }
+        : { Mode: "OFF" },
+      ...(startDate ? { StartDate: toTimestamp(startDate, timeZone) } : {}),
+      ...(endDate ? { EndDate: toTimestamp(endDate, timeZone) } : {}),
+      State: "ENABLED",
+      Target: { Arn: "<target-arn>", RoleArn: "<scheduler-execution-role-arn>" },
+    })
+  );
+
+  if (flexibleWindowMinutes) {
+    diagnostics.push({
+      severity: "info",
+      code: "flexible-window",
+      message: `With a ${flexibleWindowMinutes}-minute flexible window, each run may start up to ${flexibleWindowMinutes} minutes after the scheduled time.`,
+    });
+  }
+
+  return { schedules, diagnostics };
+}
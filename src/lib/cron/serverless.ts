@@ -0,0 +1,27 @@
+import type { CloudFormationOptions } from "./cloudformation";
+import { describeRule } from "./naming";
+
+export interface ServerlessOptions extends Pick<CloudFormationOptions, "target" | "timeZone"> {
+  /** Key under `functions:`. */
+  functionName?: string;
+}
+
+/**
+ * `serverless.yml` snippet with one `schedule` event per EventBridge expression
+ * on a placeholder function. For Scheduler the events use `method: scheduler`,
+ * which is also what lets them carry a time zone.
+ */
+export function toServerlessFunction(
+  rules: string[],
+  { functionName = "scheduledJob", target, timeZone }: ServerlessOptions = {}
+): string {
+  const events = rules.flatMap((rule) => [
+    "      - schedule:",
+    `          rate: cron(${rule})`,
+    `          description: ${JSON.stringify(describeRule(rule))}`,
+    ...(target === "scheduler"
+      ? ["          method: scheduler", ...(timeZone && timeZone !== "UTC" ? [`          timezone: ${timeZone}`] : [])]
+      : []),
+  ]);
+  return ["functions:", `  ${functionName}:`, "    handler: handler.run", "    events:", ...events].join("\n");
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { parseCron } from "./parser";
+import { shiftEventBridgeRule } from "./shift";
+
+const shift = (rule: string, delta: number) => shiftEventBridgeRule(parseCron(rule, "eventbridge").expression, delta);
+
+describe("shiftEventBridgeRule", () => {
+  it.each([
+    ["0 9 * * ? *", -60, ["0 8 * * ? *"]],
+    ["0 1 * * ? *", -120, ["0 23 * * ? *"]],
+    ["0 1 ? * 2-6 *", -540, ["0 16 ? * 1-5 *"]],
+    ["0 1 1 * ? *", -540, ["0 16 L * ? *"]],
+    ["0 23 L * ? *", 120, ["0 1 1 * ? *"]],
+    ["30 22 15 * ? *", 120, ["30 0 16 * ? *"]],
+  ])("%s moved by %i minutes", (rule, delta, rules) => {
+    expect(shift(rule, delta).rules).toEqual(rules);
+  });
+
+  it("warns that Feb 29 moved to Feb 28 also fires in non-leap years", () => {
+    const { rules, diagnostics } = shift("0 1 29 2 ? *", -540);
+    expect(rules).toEqual(["0 16 28 2 ? *"]);
+    expect(diagnostics).toContainEqual(expect.objectContaining({ severity: "warning", code: "leap-year" }));
+  });
+
+  it("warns when Feb 28 moves to the next day", () => {
+    const { rules, diagnostics } = shift("0 23 28 2 ? *", 120);
+    expect(rules).toEqual(["0 1 1 3 ? *"]);
+    expect(diagnostics).toContainEqual(expect.objectContaining({ severity: "warning", code: "leap-year" }));
+  });
+
+  it("leaves other days without a leap-year warning", () => {
+    const { diagnostics } = shift("0 1 15 2 ? *", -540);
+    expect(diagnostics.map(({ code }) => code)).not.toContain("leap-year");
+  });
+});
@@ -0,0 +1,247 @@
+import { expandField } from "./expand";
+import { getFieldSpec } from "./fields";
+import { compressValues, formatValues } from "./format";
+import type { CronDiagnostic, CronExpression, CronField } from "./types";
+
+export interface ShiftResult {
+  /** EventBridge rules (six fields) covering the shifted schedule. */
+  rules: string[];
+  diagnostics: CronDiagnostic[];
+}
+
+interface TimeGroup {
+  dayShift: number;
+  minutes: number[];
+  hours: number[];
+}
+
+interface DayFields {
+  dayOfMonth: string;
+  month: string;
+  dayOfWeek: string;
+}
+
+type MonthDay = number | "L";
+
+const MIN_MONTH_LENGTHS = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+const MAX_MONTH_LENGTHS = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const isUnrestricted = (field: CronField) =>
+  field.items.length === 1 && (field.items[0].kind === "wildcard" || field.items[0].kind === "noSpecific");
+
+const previousMonth = (month: number) => (month === 1 ? 12 : month - 1);
+const nextMonth = (month: number) => (month === 12 ? 1 : month + 1);
+
+/**
+ * Moves every hour/minute pair by `delta` minutes and groups the results by
+ * the day they land on and by minute set, so each group is one rule.
+ */
+const shiftTimes = (minutes: number[], hours: number[], delta: number, mergeDays: boolean): TimeGroup[] => {
+  const byDay = new Map<number, Map<number, number[]>>();
+  for (const hour of hours) {
+    for (const minute of minutes) {
+      const total = hour * 60 + minute + delta;
+      const dayShift = mergeDays ? 0 : Math.floor(total / 1440);
+      const time = ((total % 1440) + 1440) % 1440;
+      const day = byDay.get(dayShift) ?? new Map<number, number[]>();
+      const shiftedHour = Math.floor(time / 60);
+      day.set(shiftedHour, [...(day.get(shiftedHour) ?? []), time % 60]);
+      byDay.set(dayShift, day);
+    }
+  }
+
+  const groups: TimeGroup[] = [];
+  for (const [dayShift, day] of [...byDay].sort(([a], [b]) => a - b)) {
+    const byMinutes = new Map<string, TimeGroup>();
+    for (const [hour, hourMinutes] of [...day].sort(([a], [b]) => a - b)) {
+      const sorted = [...new Set(hourMinutes)].sort((a, b) => a - b);
+      const key = sorted.join(",");
+      const group = byMinutes.get(key) ?? { dayShift, minutes: sorted, hours: [] };
+      group.hours.push(hour);
+      byMinutes.set(key, group);
+    }
+    groups.push(...byMinutes.values());
+  }
+  return groups;
+};
+
+const shiftWeekdays = (rule: CronExpression, dayShift: number, diagnostics: CronDiagnostic[]): DayFields[] => {
+  const { dayOfWeek, month } = rule;
+  const values = expandField(dayOfWeek, getFieldSpec("eventbridge", "dayOfWeek"));
+  if (!values) {
+    diagnostics.push({
+      severity: "warning",
+      code: "lossy-shift",
+      message: `Day-of-week "${dayOfWeek.source}" cannot be moved to the ${
+        dayShift < 0 ? "previous" : "next"
+      } day in UTC, so it was kept as is and some runs will land on the wrong day.`,
+      field: "dayOfWeek",
+      span: dayOfWeek.span,
+    });
+    return [{ dayOfMonth: "?", month: month.source, dayOfWeek: dayOfWeek.source }];
+  }
+
+  if (!isUnrestricted(month)) {
+    diagnostics.push({
+      severity: "warning",
+      code: "month-boundary",
+      message: `Runs on the ${
+        dayShift < 0 ? "first" : "last"
+      } day of a month move into the ${
+        dayShift < 0 ? "previous" : "next"
+      } month in UTC, which the rule's month restriction may not cover.`,
+      field: "month",
+      span: month.span,
+    });
+  }
+
+  const shifted = values.map((value) => ((value - 1 + dayShift + 7) % 7) + 1);
+  return [{ dayOfMonth: "?", month: month.source, dayOfWeek: formatValues(shifted, 1, 7) }];
+};
+
+const shiftMonthDays = (rule: CronExpression, dayShift: number, diagnostics: CronDiagnostic[]): DayFields[] => {
+  const { dayOfMonth, month } = rule;
+  if (dayOfMonth.items.some((token) => token.kind === "nearestWeekday")) {
+    diagnostics.push({
+      severity: "warning",
+      code: "lossy-shift",
+      message: `Day-of-month "${dayOfMonth.source}" cannot be moved to the ${
+        dayShift < 0 ? "previous" : "next"
+      } day in UTC, so it was kept as is and those runs will land on the wrong day.`,
+      field: "dayOfMonth",
+      span: dayOfMonth.span,
+    });
+    return [{ dayOfMonth: dayOfMonth.source, month: month.source, dayOfWeek: "?" }];
+  }
+
+  const spec = getFieldSpec("eventbridge", "dayOfMonth");
+  const plain = dayOfMonth.items.filter((token) => token.kind !== "last");
+  const days: MonthDay[] = expandField({ ...dayOfMonth, items: plain }, spec) ?? [];
+  if (plain.length !== dayOfMonth.items.length) days.push("L");
+
+  const targets = new Map<number, Set<MonthDay>>();
+  const add = (target: number, day: MonthDay) => targets.set(target, (targets.get(target) ?? new Set()).add(day));
+  let leapYearApproximation = false;
+  let leapDay = false;
+
+  for (const current of expandField(month, getFieldSpec("eventbridge", "month")) ?? []) {
+    const minLength = MIN_MONTH_LENGTHS[current - 1];
+    const maxLength = MAX_MONTH_LENGTHS[current - 1];
+
+    for (const day of days) {
+      if (day !== "L" && day > maxLength) continue;
+
+      if (dayShift < 0) {
+        if (day === 1) add(previousMonth(current), "L");
+        else if (day !== "L") {
+          leapDay ||= current === 2 && day === 29;
+          add(current, day - 1);
+        } else {
+          leapYearApproximation ||= current === 2;
+          add(current, minLength - 1);
+        }
+      } else if (day === "L" || day === maxLength) {
+        leapYearApproximation ||= current === 2 && day !== "L";
+        add(nextMonth(current), 1);
+      } else if (day < minLength) {
+        add(current, day + 1);
+      } else {
+        // February 28th: the 29th in leap years, March 1st otherwise
+        leapYearApproximation = true;
+        add(nextMonth(current), 1);
+      }
+    }
+  }
+
+  if (leapYearApproximation) {
+    diagnostics.push({
+      severity: "warning",
+      code: "leap-year",
+      message: "Shifting across the end of February assumes a non-leap year, so runs around Feb 28/29 differ by a day in leap years.",
+      field: "dayOfMonth",
+      span: dayOfMonth.span,
+    });
+  }
+
+  if (leapDay) {
+    diagnostics.push({
+      severity: "warning",
+      code: "leap-year",
+      message: "February 29th moves to the 28th in UTC, which every year has, so the rule also fires on Feb 28 of non-leap years when the original schedule does not run.",
+      field: "dayOfMonth",
+      span: dayOfMonth.span,
+    });
+  }
+
+  if (rule.year && !isUnrestricted(rule.year) && (targets.has(1) || targets.has(12))) {
+    diagnostics.push({
+      severity: "warning",
+      code: "year-boundary",
+      message: `Runs that cross New Year in UTC still use year "${rule.year.source}", so the first or last run of a year may be dropped.`,
+      field: "year",
+      span: rule.year.span,
+    });
+  }
+
+  // Group target months that share the same days into one rule each
+  const groups = new Map<string, number[]>();
+  const addGroup = (days: string, target: number) => groups.set(days, [...(groups.get(days) ?? []), target]);
+
+  for (const [target, targetDays] of [...targets].sort(([a], [b]) => a - b)) {
+    const numbers = [...targetDays].filter((day): day is number => day !== "L");
+    const coversMonth =
+      targetDays.has("L") && Array.from({ length: MIN_MONTH_LENGTHS[target - 1] - 1 }, (_, i) => i + 1).every((day) =>
+        targetDays.has(day)
+      );
+
+    if (coversMonth) {
+      addGroup("*", target);
+      continue;
+    }
+    if (numbers.length) addGroup(formatValues(numbers, 1, 31), target);
+    if (targetDays.has("L")) addGroup("L", target);
+  }
+
+  return [...groups].map(([days, months]) => ({
+    dayOfMonth: days,
+    month: months.length === 12 ? "*" : compressValues(months),
+    dayOfWeek: "?",
+  }));
+};
+
+/**
+ * Moves an EventBridge rule by `delta` minutes (local time minus the zone
+ * offset gives UTC, so Berlin in summer is -120). Runs that cross midnight get
+ * their day-of-month, day-of-week and, at month ends, month fields adjusted.
+ */
+export function shiftEventBridgeRule(rule: CronExpression, delta: number): ShiftResult {
+  const { minute, hour, dayOfMonth, month, dayOfWeek, year } = rule;
+  const minutes = expandField(minute, getFieldSpec("eventbridge", "minute")) ?? [];
+  const hours = expandField(hour, getFieldSpec("eventbridge", "hour")) ?? [];
+  const diagnostics: CronDiagnostic[] = [];
+
+  // Every day matches, so runs may freely cross midnight
+  const mergeDays = isUnrestricted(dayOfMonth) && isUnrestricted(dayOfWeek) && isUnrestricted(month);
+
+  const rules: string[] = [];
+  for (const group of shiftTimes(minutes, hours, delta, mergeDays)) {
+    const minuteField = delta % 60 === 0 ? minute.source : formatValues(group.minutes, 0, 59);
+    const hourField = formatValues(group.hours, 0, 23);
+
+    const days: DayFields[] =
+      group.dayShift === 0
+        ? [{ dayOfMonth: dayOfMonth.source, month: month.source, dayOfWeek: dayOfWeek.source }]
+        : dayOfMonth.items[0]?.kind === "noSpecific"
+          ? shiftWeekdays(rule, group.dayShift, diagnostics)
+          : shiftMonthDays(rule, group.dayShift, diagnostics);
+
+    for (const day of days) {
+      rules.push(
+        `${minuteField} ${hourField} ${day.dayOfMonth} ${day.month} ${day.dayOfWeek} ${year?.source ?? "*"}`
+      );
+    }
+  }
+
+  const unique = new Map(diagnostics.map((diagnostic) => [`${diagnostic.code}:${diagnostic.message}`, diagnostic]));
+  return { rules: [...new Set(rules)], diagnostics: [...unique.values()] };
+}
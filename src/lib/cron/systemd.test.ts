@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { parseCron } from "./parser";
+import { toSystemdTimer } from "./systemd";
+
+const timer = (unix: string, timeZone?: string) => toSystemdTimer([parseCron(unix).expression], { timeZone });
+
+describe("toSystemdTimer", () => {
+  it.each([
+    ["0 9 * * 1-5", "Mon..Fri *-*-* 09:00:00"],
+    ["*/15 * * * *", "*-*-* *:00/15:00"],
+    ["30 2 1 * *", "*-*-01 02:30:00"],
+    ["0 0 * * 0", "Sun *-*-* 00:00:00"],
+  ])("%s -> OnCalendar=%s", (unix, event) => {
+    expect(timer(unix).events).toEqual([event]);
+  });
+
+  it("appends the zone the crontab runs in", () => {
+    expect(timer("0 9 * * *", "Europe/Berlin").events).toEqual(["*-*-* 09:00:00 Europe/Berlin"]);
+  });
+
+  it("writes one event per day field when cron would fire on either", () => {
+    const { events, unit } = timer("0 9 1 * 1");
+    expect(events).toEqual(["*-*-01 09:00:00", "Mon *-*-* 09:00:00"]);
+    expect(unit).toContain("OnCalendar=*-*-01 09:00:00\nOnCalendar=Mon *-*-* 09:00:00");
+  });
+});
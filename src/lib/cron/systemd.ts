@@ -0,0 +1,432 @@
+import { expandToken } from "./expand";
+import { getFieldSpec, type CronFieldSpec } from "./fields";
+import { isValidTimeZone } from "./timezone";
+import type {
+  CronDiagnostic,
+  CronExpression,
+  CronField,
+  CronFieldName,
+  CronToken,
+  ParseResult,
+  RangeToken,
+  Span,
+  ValueToken,
+} from "./types";
+
+/** Shorthands systemd accepts in place of a full calendar event. */
+export const SYSTEMD_SHORTHANDS: Record<string, string> = {
+  minutely: "*-*-* *:*:00",
+  hourly: "*-*-* *:00:00",
+  daily: "*-*-* 00:00:00",
+  weekly: "Mon *-*-* 00:00:00",
+  monthly: "*-*-01 00:00:00",
+  quarterly: "*-01,04,07,10-01 00:00:00",
+  semiannually: "*-01,07-01 00:00:00",
+  yearly: "*-01-01 00:00:00",
+  annually: "*-01-01 00:00:00",
+};
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const SHORT_DAYS = DAY_NAMES.map((name) => name.slice(0, 3));
+
+const spec = (name: CronFieldName) => getFieldSpec("systemd", name);
+
+// Parsing state. `span` is swapped out for shorthands, whose tokens all point
+// at the shorthand itself.
+interface Scanner {
+  diagnostics: CronDiagnostic[];
+  span: (start: number, text: string) => Span;
+}
+
+const error = (scanner: Scanner, code: string, message: string, span: Span, field?: CronFieldName) => {
+  scanner.diagnostics.push({ severity: "error", code, message, field, span });
+  return undefined;
+};
+
+// Cron spelling of a token, so emitters can keep using `field.source`
+const formatToken = (token: CronToken): string => {
+  switch (token.kind) {
+    case "value":
+      return token.name ? token.name.toUpperCase() : String(token.value);
+    case "range":
+      return `${formatToken(token.start)}-${formatToken(token.end)}`;
+    case "step":
+      return `${formatToken(token.base)}/${token.step}`;
+    case "last":
+      return token.offset ? `L-${token.offset}` : "L";
+    default:
+      return "*";
+  }
+};
+
+const toField = (name: CronFieldName, items: CronToken[], span: Span): CronField => ({
+  name,
+  source: items.map(formatToken).join(","),
+  span,
+  items,
+});
+
+const parseNumber = (scanner: Scanner, text: string, start: number, field: CronFieldSpec): ValueToken | undefined =>
+  /^\d+$/.test(text)
+    ? { kind: "value", value: Number(text), span: scanner.span(start, text) }
+    : error(
+        scanner,
+        "invalid-value",
+        `"${text}" is not a valid ${field.label} value (expected ${field.min}-${field.max})`,
+        scanner.span(start, text),
+        field.name
+      );
+
+type ValueParser = (scanner: Scanner, text: string, start: number) => ValueToken | undefined;
+
+// `Mon`, `monday` and `MON` are all Monday, and Sunday is 7; the name is kept
+// in its three-letter form
+const parseWeekday: ValueParser = (scanner, text, start) => {
+  const span = scanner.span(start, text);
+  const upper = text.toUpperCase();
+  const index = DAY_NAMES.findIndex((name) => [name.toUpperCase(), name.slice(0, 3).toUpperCase()].includes(upper));
+  if (index === -1) {
+    const message = `"${text}" is not a weekday (expected Mon-Sun or Monday-Sunday)`;
+    return error(scanner, "invalid-value", message, span, "dayOfWeek");
+  }
+  return { kind: "value", value: index || 7, name: SHORT_DAYS[index], span };
+};
+
+// `a..b` or a single value
+const parseRange = (
+  scanner: Scanner,
+  text: string,
+  start: number,
+  value: ValueParser
+): ValueToken | RangeToken | undefined => {
+  const dots = text.indexOf("..");
+  if (dots === -1) return value(scanner, text, start);
+  const from = value(scanner, text.slice(0, dots), start);
+  const to = value(scanner, text.slice(dots + 2), start + dots + 2);
+  return from && to && { kind: "range", start: from, end: to, span: scanner.span(start, text) };
+};
+
+// `*`, `5`, `1..5`, `0/15` or `*/15`
+const parseItem = (scanner: Scanner, text: string, start: number, field: CronFieldSpec): CronToken | undefined => {
+  const span = scanner.span(start, text);
+  if (text === "*") return { kind: "wildcard", span };
+  const number: ValueParser = (inner, part, at) => parseNumber(inner, part, at, field);
+
+  const slash = text.indexOf("/");
+  if (slash === -1) return parseRange(scanner, text, start, number);
+  const stepText = text.slice(slash + 1);
+  if (!/^\d+$/.test(stepText)) {
+    const message = `Repetition "${stepText}" in ${field.label} must be a whole number`;
+    return error(scanner, "invalid-step", message, span, field.name);
+  }
+  const baseText = text.slice(0, slash);
+  const base =
+    baseText === "*"
+      ? { kind: "wildcard" as const, span: scanner.span(start, baseText) }
+      : parseRange(scanner, baseText, start, number);
+  return base && { kind: "step", base, step: Number(stepText), span };
+};
+
+// A comma-separated component such as the `01,04` of `*-01,04-01`
+const parseComponent = (
+  scanner: Scanner,
+  text: string,
+  start: number,
+  name: CronFieldName,
+  parse: (text: string, start: number) => CronToken | undefined = (item, at) => parseItem(scanner, item, at, spec(name))
+): CronField => {
+  const items: CronToken[] = [];
+  let offset = start;
+  for (const item of text.split(",")) {
+    const token = item
+      ? parse(item, offset)
+      : error(scanner, "empty-item", `Empty list item in ${spec(name).label}`, scanner.span(offset, " "), name);
+    if (token) items.push(token);
+    offset += item.length + 1;
+  }
+  return toField(name, items, scanner.span(start, text));
+};
+
+const wildcardField = (name: CronFieldName, span: Span): CronField => toField(name, [{ kind: "wildcard", span }], span);
+
+type DateFields = Partial<Pick<CronExpression, "year" | "month" | "dayOfMonth">>;
+
+// `[year-]month-day`, or `[year-]month~days` counting back from the end of the month
+const parseDate = (scanner: Scanner, text: string, start: number): DateFields | undefined => {
+  const tilde = text.indexOf("~");
+  const dateText = tilde === -1 ? text : text.slice(0, tilde);
+  const parts = dateText.split("-");
+  if (tilde === -1 ? parts.length < 2 || parts.length > 3 : parts.length > 2) {
+    const message = `"${text}" is not a date (expected year-month-day)`;
+    return error(scanner, "invalid-calendar", message, scanner.span(start, text));
+  }
+
+  const names: CronFieldName[] =
+    tilde === -1
+      ? parts.length === 3 ? ["year", "month", "dayOfMonth"] : ["month", "dayOfMonth"]
+      : parts.length === 2 ? ["year", "month"] : ["month"];
+  const fields: DateFields = {};
+  let offset = start;
+  parts.forEach((part, index) => {
+    fields[names[index] as keyof DateFields] = parseComponent(scanner, part, offset, names[index]);
+    offset += part.length + 1;
+  });
+
+  if (tilde !== -1) {
+    const daysText = text.slice(tilde + 1);
+    const daysStart = start + tilde + 1;
+    const daysSpan = scanner.span(daysStart, daysText);
+    if (!/^\d+$/.test(daysText) || Number(daysText) < 1) {
+      return error(
+        scanner,
+        "unsupported-calendar",
+        `"~${daysText}" is not supported; only a single day counted back from the end of the month (such as ~01) converts to cron`,
+        daysSpan,
+        "dayOfMonth"
+      );
+    }
+    // `~01` is the last day, `~02` the one before
+    const last: CronToken = { kind: "last", offset: Number(daysText) - 1, span: daysSpan };
+    fields.dayOfMonth = toField("dayOfMonth", [last], daysSpan);
+  }
+  return fields;
+};
+
+type TimeFields = Pick<CronExpression, "hour" | "minute"> & { second: CronField };
+
+// `hour:minute[:second]`; seconds default to 00
+const parseTime = (scanner: Scanner, text: string, start: number): TimeFields | undefined => {
+  const parts = text.split(":");
+  if (parts.length < 2 || parts.length > 3) {
+    const message = `"${text}" is not a time (expected hour:minute[:second])`;
+    return error(scanner, "invalid-calendar", message, scanner.span(start, text));
+  }
+  if (parts[2]?.includes(".")) {
+    const message = "Fractional seconds have no cron equivalent";
+    return error(scanner, "unsupported-calendar", message, scanner.span(start, text), "second");
+  }
+  const names: CronFieldName[] = ["hour", "minute", "second"];
+  const fields = {} as TimeFields;
+  let offset = start;
+  parts.forEach((part, index) => {
+    fields[names[index] as keyof TimeFields] = parseComponent(scanner, part, offset, names[index]);
+    offset += part.length + 1;
+  });
+  if (!fields.second) {
+    const span = scanner.span(start, text);
+    fields.second = toField("second", [{ kind: "value", value: 0, span }], span);
+  }
+  return fields;
+};
+
+const parseWeekdays = (scanner: Scanner, text: string, start: number) =>
+  parseComponent(scanner, text, start, "dayOfWeek", (item, at) => parseRange(scanner, item, at, parseWeekday));
+
+const isShorthand = (text: string) => Object.keys(SYSTEMD_SHORTHANDS).includes(text.toLowerCase());
+
+// Weekdays, date and time, in that order, each optional
+const parseEvent = (scanner: Scanner, parts: { text: string; start: number }[], whole: Span): ParseResult => {
+  let index = 0;
+  const next = (test: (text: string) => boolean) =>
+    index < parts.length && test(parts[index].text) ? parts[index++] : undefined;
+
+  const weekdays = next((text) => /^[a-z]/i.test(text));
+  const date = next((text) => !text.includes(":"));
+  const time = next((text) => text.includes(":"));
+  if (index < parts.length) {
+    const { text, start } = parts[index];
+    return {
+      diagnostics: [
+        ...scanner.diagnostics,
+        {
+          severity: "error",
+          code: "invalid-calendar",
+          message: `Unexpected "${text}"; a calendar event is [weekdays] [year-month-day] [hour:minute[:second]] [time zone]`,
+          span: scanner.span(start, text),
+        },
+      ],
+    };
+  }
+
+  const dayOfWeek = weekdays
+    ? parseWeekdays(scanner, weekdays.text, weekdays.start)
+    : wildcardField("dayOfWeek", whole);
+  const dateFields = date ? parseDate(scanner, date.text, date.start) : {};
+  const timeFields = time ? parseTime(scanner, time.text, time.start) : undefined;
+  if (!dateFields || (time && !timeFields) || scanner.diagnostics.length) return { diagnostics: scanner.diagnostics };
+
+  // A missing time means midnight
+  const midnight = (name: CronFieldName) => toField(name, [{ kind: "value", value: 0, span: whole }], whole);
+  return {
+    expression: {
+      dialect: "systemd",
+      source: "",
+      second: timeFields?.second ?? midnight("second"),
+      minute: timeFields?.minute ?? midnight("minute"),
+      hour: timeFields?.hour ?? midnight("hour"),
+      dayOfMonth: dateFields.dayOfMonth ?? wildcardField("dayOfMonth", whole),
+      month: dateFields.month ?? wildcardField("month", whole),
+      dayOfWeek,
+      year: dateFields.year ?? wildcardField("year", whole),
+    },
+    diagnostics: scanner.diagnostics,
+  };
+};
+
+/**
+ * Parses a systemd `OnCalendar=` calendar event into the cron AST:
+ *
+ *   event = [weekdays] [[year "-"] month "-" day] [hour ":" minute [":" second]] [zone]
+ *         | shorthand [zone]
+ *
+ * Each component is a comma-separated list of `*`, values, `a..b` ranges and
+ * `start/step` repetitions; `month~days` counts days back from the end of the
+ * month. Weekdays are kept in Unix numbering with Sunday as 7. A trailing time
+ * zone lands in `timeZone`.
+ */
+export function parseOnCalendar(source: string): ParseResult {
+  const scanner: Scanner = { diagnostics: [], span: (start, text) => ({ start, end: start + text.length }) };
+  const parts = [...source.matchAll(/\S+/g)].map((match) => ({ text: match[0], start: match.index ?? 0 }));
+  const whole = { start: 0, end: source.length };
+  if (!parts.length) {
+    error(scanner, "invalid-calendar", "Empty calendar event", whole);
+    return { diagnostics: scanner.diagnostics };
+  }
+
+  // A time zone can only come last, and is the only part that starts with a
+  // letter other than weekdays (which come first) and shorthands
+  let timeZone: CronExpression["timeZone"];
+  const last = parts[parts.length - 1];
+  if (parts.length > 1 && /^[a-z]/i.test(last.text) && !isShorthand(last.text)) {
+    parts.pop();
+    const span = scanner.span(last.start, last.text);
+    if (!isValidTimeZone(last.text)) error(scanner, "invalid-time-zone", `Unknown time zone "${last.text}"`, span);
+    else timeZone = { name: last.text, span };
+  }
+
+  let result: ParseResult;
+  if (parts.length === 1 && isShorthand(parts[0].text)) {
+    const { text, start } = parts[0];
+    const expansion = SYSTEMD_SHORTHANDS[text.toLowerCase()];
+    const span = scanner.span(start, text);
+    const expanded = [...expansion.matchAll(/\S+/g)].map((match) => ({ text: match[0], start: match.index ?? 0 }));
+    result = parseEvent({ ...scanner, span: () => span }, expanded, span);
+  } else {
+    result = parseEvent(scanner, parts, whole);
+  }
+
+  return result.expression
+    ? { expression: { ...result.expression, source, timeZone }, diagnostics: result.diagnostics }
+    : result;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Values matched by a step or range step, for places systemd cannot repeat over a range
+const expand = (token: CronToken, field: CronFieldSpec) => expandToken(token, field) ?? [];
+
+const formatNumbers = (field: CronField, source: CronExpression) => {
+  const fieldSpec = getFieldSpec(source.dialect, field.name);
+  return field.items
+    .map((token) => {
+      switch (token.kind) {
+        case "value":
+          return pad(token.value);
+        case "range":
+          return `${pad(token.start.value)}..${pad(token.end.value)}`;
+        case "step":
+          if (token.base.kind === "wildcard") return `${pad(fieldSpec.min)}/${token.step}`;
+          if (token.base.kind === "value") return `${pad(token.base.value)}/${token.step}`;
+          return expand(token, fieldSpec).map(pad).join(",");
+        default:
+          return "*";
+      }
+    })
+    .join(",");
+};
+
+// Unix 0 and 7 are both Sunday; systemd ranges run Monday to Sunday, so a
+// range starting on Sunday is listed out instead
+const formatWeekdays = (field: CronField, source: CronExpression) => {
+  const fieldSpec = getFieldSpec(source.dialect, "dayOfWeek");
+  const days = field.items.map((token) => {
+    if (token.kind === "value") return SHORT_DAYS[token.value % 7];
+    if (token.kind === "range" && token.start.value > 0) {
+      return `${SHORT_DAYS[token.start.value]}..${SHORT_DAYS[token.end.value % 7]}`;
+    }
+    return [...new Set(expand(token, fieldSpec).map((value) => value % 7))].map((value) => SHORT_DAYS[value]).join(",");
+  });
+  return [...new Set(days)].join(",");
+};
+
+const isWildcard = (field: CronField) => field.items.length === 1 && field.items[0].kind === "wildcard";
+
+export interface OnCalendarConversion {
+  /** One `OnCalendar=` value per line; a timer fires when any of them matches. */
+  events: string[];
+  diagnostics: CronDiagnostic[];
+}
+
+/**
+ * Converts a Unix expression into `OnCalendar=` values. systemd requires
+ * weekday and date to match together, so a crontab that restricts both day
+ * fields (and therefore fires on either) becomes two events.
+ */
+export function toOnCalendar(expression: CronExpression, timeZone?: string): OnCalendarConversion {
+  const { minute, hour, dayOfMonth, month, dayOfWeek } = expression;
+  const time = `${formatNumbers(hour, expression)}:${formatNumbers(minute, expression)}:00`;
+  const date = (day: string) => `*-${formatNumbers(month, expression)}-${day}`;
+  const zone = timeZone ? ` ${timeZone}` : "";
+  const event = (weekdays: string, day: string) => `${weekdays ? `${weekdays} ` : ""}${date(day)} ${time}${zone}`;
+
+  const weekdays = isWildcard(dayOfWeek) ? "" : formatWeekdays(dayOfWeek, expression);
+  const days = isWildcard(dayOfMonth) ? "*" : formatNumbers(dayOfMonth, expression);
+  const either = weekdays && days !== "*" && !dayOfMonth.source.startsWith("*") && !dayOfWeek.source.startsWith("*");
+  if (!either) return { events: [event(weekdays, days)], diagnostics: [] };
+
+  return {
+    events: [event("", days), event(weekdays, "*")],
+    diagnostics: [
+      {
+        severity: "info",
+        code: "day-fields-split",
+        message: `Cron fires when either day-of-month (${dayOfMonth.source}) or day-of-week (${dayOfWeek.source}) matches, but systemd needs both to match, so the timer gets one OnCalendar= line for each.`,
+      },
+    ],
+  };
+}
+
+export interface SystemdTimerOptions {
+  /** `Description=` of the unit. */
+  description?: string;
+  /** Zone appended to each event; without one systemd uses the host's local time. */
+  timeZone?: string;
+}
+
+export interface SystemdTimer {
+  events: string[];
+  /** Contents of the `.timer` unit file. */
+  unit: string;
+  diagnostics: CronDiagnostic[];
+}
+
+/**
+ * Builds a `.timer` unit that fires whenever any of the given Unix
+ * expressions would. The timer starts the `.service` unit of the same name.
+ */
+export function toSystemdTimer(expressions: CronExpression[], options: SystemdTimerOptions = {}): SystemdTimer {
+  const { description = "Converted cron schedule", timeZone } = options;
+  const conversions = expressions.map((expression) => toOnCalendar(expression, timeZone));
+  const events = [...new Set(conversions.flatMap((conversion) => conversion.events))];
+  const unit = [
+    "[Unit]",
+    `Description=${description}`,
+    "",
+    "[Timer]",
+    ...events.map((event) => `OnCalendar=${event}`),
+    "",
+    "[Install]",
+    "WantedBy=timers.target",
+  ].join("\n");
+  return { events, unit, diagnostics: conversions.flatMap((conversion) => conversion.diagnostics) };
+}
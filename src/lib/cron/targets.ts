@@ -0,0 +1,103 @@
+/** What a crontab command is handed to when its rule fires. */
+export type CommandTargetKind = "lambda" | "ecs" | "ssm";
+
+/** Shape accepted by `aws events put-targets --targets`; ARNs in angle brackets are placeholders. */
+export interface EventBridgeTarget {
+  Id: string;
+  Arn: string;
+  RoleArn?: string;
+  /** JSON text: the Lambda event, the ECS task overrides or the SSM document parameters. */
+  Input: string;
+  EcsParameters?: {
+    TaskDefinitionArn: string;
+    TaskCount: number;
+    LaunchType: "FARGATE";
+    NetworkConfiguration: { awsvpcConfiguration: { Subnets: string[]; AssignPublicIp: "DISABLED" } };
+  };
+  RunCommandParameters?: {
+    RunCommandTargets: { Key: string; Values: string[] }[];
+  };
+}
+
+export interface CommandTargetOptions {
+  /** Text the command would have read on standard input. */
+  input?: string;
+  /** Crontab variables in effect for the command. */
+  environment?: Record<string, string>;
+}
+
+// Variables that configure cron itself rather than the command
+const CRON_VARIABLES = new Set(["CRON_TZ", "MAILTO", "MAILFROM", "SHELL", "RANDOM_DELAY"]);
+
+const commandEnvironment = (environment: Record<string, string> = {}) =>
+  Object.entries(environment).filter(([name]) => !CRON_VARIABLES.has(name));
+
+// Single-quoted so the exported value reaches the command unchanged
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+// Standard input survives as a here-document on the command line
+const withInput = (command: string, input?: string) =>
+  input === undefined ? command : `${command} <<'CRONTAB_INPUT'\n${input}\nCRONTAB_INPUT`;
+
+/**
+ * Target stub that runs a crontab command: a Lambda function receiving it as
+ * its event, an ECS task running it through the shell as a container
+ * override, or Run Command executing it with `AWS-RunShellScript`.
+ */
+export function toCommandTarget(
+  kind: CommandTargetKind,
+  command: string,
+  { input, environment }: CommandTargetOptions = {}
+): EventBridgeTarget {
+  const variables = commandEnvironment(environment);
+  const shell = environment?.SHELL || "/bin/sh";
+
+  switch (kind) {
+    case "lambda":
+      return {
+        Id: "Target",
+        Arn: "<lambda-function-arn>",
+        Input: JSON.stringify({
+          command,
+          ...(input !== undefined ? { stdin: input } : {}),
+          ...(variables.length ? { environment: Object.fromEntries(variables) } : {}),
+        }),
+      };
+    case "ecs":
+      return {
+        Id: "Target",
+        Arn: "<ecs-cluster-arn>",
+        RoleArn: "<events-ecs-role-arn>",
+        Input: JSON.stringify({
+          containerOverrides: [
+            {
+              name: "<container-name>",
+              command: [shell, "-c", withInput(command, input)],
+              ...(variables.length ? { environment: variables.map(([name, value]) => ({ name, value })) } : {}),
+            },
+          ],
+        }),
+        EcsParameters: {
+          TaskDefinitionArn: "<task-definition-arn>",
+          TaskCount: 1,
+          LaunchType: "FARGATE",
+          NetworkConfiguration: { awsvpcConfiguration: { Subnets: ["<subnet-id>"], AssignPublicIp: "DISABLED" } },
+        },
+      };
+    case "ssm":
+      return {
+        Id: "Target",
+        Arn: "arn:aws:ssm:<region>::document/AWS-RunShellScript",
+        RoleArn: "<events-ssm-role-arn>",
+        Input: JSON.stringify({
+          commands: [
+            ...variables.map(([name, value]) => `export ${name}=${shellQuote(value)}`),
+            withInput(command, input),
+          ],
+        }),
+        RunCommandParameters: {
+          RunCommandTargets: [{ Key: "InstanceIds", Values: ["<instance-id>"] }],
+        },
+      };
+  }
+}
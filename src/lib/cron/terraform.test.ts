@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { toTerraform } from "./terraform";
+
+// Described as "At :00, :05, ... Monday through Friday", 64 characters once snake_cased
+const LONG_RULE = "0,5,10,15,20,25,30,35,40,45 9 ? * MON-FRI *";
+
+const names = (hcl: string) => [...hcl.matchAll(/^\s+name\s+= "(.*)"$/gm)].map(([, name]) => name);
+
+describe("toTerraform names", () => {
+  it("keeps numbered names within 64 characters", () => {
+    const [first, second] = names(toTerraform([LONG_RULE, LONG_RULE]));
+    expect(first).toHaveLength(64);
+    expect(second).toHaveLength(64);
+    expect(second).toBe(`${first.slice(0, 62)}-2`);
+  });
+
+  it("numbers Scheduler schedules the same way", () => {
+    const [, second] = names(toTerraform([LONG_RULE, LONG_RULE], { target: "scheduler" }));
+    expect(second).toHaveLength(64);
+    expect(second).toMatch(/-2$/);
+  });
+});
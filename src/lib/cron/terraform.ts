@@ -0,0 +1,78 @@
+import type { CloudFormationOptions } from "./cloudformation";
+import { describeRule, toResourceName, uniqueNames } from "./naming";
+
+export type TerraformOptions = Pick<CloudFormationOptions, "target" | "timeZone">;
+
+// Attributes with their `=` lined up, the way `terraform fmt` leaves them
+const attributes = (entries: [string, string | undefined][], indent = "  ") => {
+  const present = entries.filter((entry): entry is [string, string] => entry[1] !== undefined);
+  const width = Math.max(...present.map(([key]) => key.length));
+  return present.map(([key, value]) => `${indent}${key.padEnd(width)} = ${value}`);
+};
+
+const quote = (value: string) => JSON.stringify(value);
+
+const block = (header: string, lines: string[]) => [`${header} {`, ...lines, "}"].join("\n");
+
+const ruleResources = (name: string, rule: string, description: string) =>
+  [
+    block(
+      `resource "aws_cloudwatch_event_rule" "${name}"`,
+      attributes([
+        ["name", quote(name.replace(/_/g, "-"))],
+        ["description", quote(description)],
+        ["schedule_expression", quote(`cron(${rule})`)],
+      ])
+    ),
+    block(
+      `resource "aws_cloudwatch_event_target" "${name}"`,
+      attributes([
+        ["rule", `aws_cloudwatch_event_rule.${name}.name`],
+        ["arn", quote("<target-arn>")],
+      ])
+    ),
+  ].join("\n\n");
+
+const scheduleResource = (name: string, rule: string, description: string, timeZone?: string) =>
+  block(`resource "aws_scheduler_schedule" "${name}"`, [
+    ...attributes([
+      ["name", quote(name.replace(/_/g, "-"))],
+      ["description", quote(description)],
+      ["schedule_expression", quote(`cron(${rule})`)],
+      ["schedule_expression_timezone", timeZone && timeZone !== "UTC" ? quote(timeZone) : undefined],
+    ]),
+    "",
+    "  flexible_time_window {",
+    ...attributes([["mode", quote("OFF")]], "    "),
+    "  }",
+    "",
+    "  target {",
+    ...attributes(
+      [
+        ["arn", quote("<target-arn>")],
+        ["role_arn", quote("<scheduler-execution-role-arn>")],
+      ],
+      "    "
+    ),
+    "  }",
+  ]);
+
+/**
+ * Terraform HCL with one `aws_cloudwatch_event_rule` and its target (or, for
+ * Scheduler, one `aws_scheduler_schedule`) per EventBridge expression. Target
+ * ARNs are placeholders to fill in.
+ */
+export function toTerraform(rules: string[], { target, timeZone }: TerraformOptions = {}): string {
+  const descriptions = rules.map(describeRule);
+  const names = uniqueNames(
+    descriptions.map((description) => toResourceName(description)),
+    "_"
+  );
+  return rules
+    .map((rule, index) =>
+      target === "scheduler"
+        ? scheduleResource(names[index], rule, descriptions[index], timeZone)
+        : ruleResources(names[index], rule, descriptions[index])
+    )
+    .join("\n\n");
+}
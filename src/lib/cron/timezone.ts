@@ -0,0 +1,119 @@
+/**
+ * Time zone helpers built on `Intl.DateTimeFormat`, so they work in the
+ * browser and in Node without a tz database dependency.
+ */
+
+/** A short list of zones offered in the UI; any IANA name works in the library. */
+export const COMMON_TIME_ZONES = [
+  "UTC",
+  "Europe/London",
+  "Europe/Dublin",
+  "Europe/Lisbon",
+  "Europe/Berlin",
+  "Europe/Paris",
+  "Europe/Madrid",
+  "Europe/Amsterdam",
+  "Europe/Stockholm",
+  "Europe/Helsinki",
+  "Europe/Athens",
+  "Europe/Moscow",
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Phoenix",
+  "America/Los_Angeles",
+  "America/Anchorage",
+  "America/Sao_Paulo",
+  "America/Mexico_City",
+  "America/Toronto",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Shanghai",
+  "Asia/Tokyo",
+  "Asia/Seoul",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/** Whether the runtime knows the given IANA zone name. */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface ZonedDateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+/** Wall-clock date and time of an instant in the given zone. */
+export function toZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, Number(part.value)])
+  );
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+/** Offset of the zone from UTC at the given instant, in minutes (Berlin in summer: 120). */
+export function getTimeZoneOffset(timeZone: string, date: Date): number {
+  const { year, month, day, hour, minute } = toZonedParts(date, timeZone);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  return Math.round((wallClock - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+}
+
+/**
+ * Converts a wall-clock time in the zone to an instant. Repeated times (DST
+ * fall-back) resolve to their first occurrence; times skipped by a DST gap are
+ * read with the pre-transition offset, i.e. moved forward by the gap.
+ */
+export function fromZonedParts({ year, month, day, hour, minute }: ZonedDateParts, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const before = wallClock - getTimeZoneOffset(timeZone, new Date(wallClock - DAY_MS)) * 60000;
+  const after = wallClock - getTimeZoneOffset(timeZone, new Date(wallClock + DAY_MS)) * 60000;
+  const roundTrips = (instant: number) =>
+    instant + getTimeZoneOffset(timeZone, new Date(instant)) * 60000 === wallClock;
+
+  const candidates = [before, after].filter(roundTrips);
+  return new Date(candidates.length ? Math.min(...candidates) : before);
+}
+
+/** `UTC+02:00` style label for an offset in minutes. */
+export function formatUtcOffset(offset: number): string {
+  const sign = offset < 0 ? "-" : "+";
+  const absolute = Math.abs(offset);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, "0");
+  const minutes = String(absolute % 60).padStart(2, "0");
+  return `UTC${sign}${hours}:${minutes}`;
+}
@@ -0,0 +1,160 @@
+/**
+ * Shared types for the cron library. Everything in here is UI-free so it can
+ * be imported from scripts and tests as well as from the React pages.
+ */
+
+/** Supported cron dialects. */
+export type CronDialect =
+  | "unix"
+  | "eventbridge"
+  | "quartz"
+  | "spring"
+  | "kubernetes"
+  | "github"
+  | "systemd"
+  | "azure"
+  | "gcp"
+  | "jenkins";
+
+/** Names of the fields a cron expression can carry, in canonical order. */
+export type CronFieldName =
+  | "second"
+  | "minute"
+  | "hour"
+  | "dayOfMonth"
+  | "month"
+  | "dayOfWeek"
+  | "year";
+
+/** Character offsets into the original expression (end is exclusive). */
+export interface Span {
+  start: number;
+  end: number;
+}
+
+/** `*` */
+export interface WildcardToken {
+  kind: "wildcard";
+  span: Span;
+}
+
+/** `?` — "no specific value", only meaningful in EventBridge day fields. */
+export interface NoSpecificToken {
+  kind: "noSpecific";
+  span: Span;
+}
+
+/**
+ * A single number or name. `value` is the number as written in the source
+ * dialect; `name` keeps the original spelling when a name (MON, JAN) was used.
+ */
+export interface ValueToken {
+  kind: "value";
+  value: number;
+  name?: string;
+  span: Span;
+}
+
+/** `start-end` */
+export interface RangeToken {
+  kind: "range";
+  start: ValueToken;
+  end: ValueToken;
+  span: Span;
+}
+
+/** `base/step`, where base is `*`, a single start value or a range. */
+export interface StepToken {
+  kind: "step";
+  base: WildcardToken | ValueToken | RangeToken;
+  step: number;
+  span: Span;
+}
+
+/** `L` or `L-n` in day-of-month; a bare `L` in day-of-week. */
+export interface LastToken {
+  kind: "last";
+  offset: number;
+  span: Span;
+}
+
+/** `15W` or `LW` — nearest weekday to the given day of the month. */
+export interface NearestWeekdayToken {
+  kind: "nearestWeekday";
+  day: number | "last";
+  span: Span;
+}
+
+/** `5L` — last given weekday of the month. */
+export interface LastWeekdayToken {
+  kind: "lastWeekday";
+  weekday: ValueToken;
+  span: Span;
+}
+
+/** `3#2` — nth given weekday of the month. */
+export interface NthWeekdayToken {
+  kind: "nthWeekday";
+  weekday: ValueToken;
+  nth: number;
+  span: Span;
+}
+
+export type CronToken =
+  | WildcardToken
+  | NoSpecificToken
+  | ValueToken
+  | RangeToken
+  | StepToken
+  | LastToken
+  | NearestWeekdayToken
+  | LastWeekdayToken
+  | NthWeekdayToken;
+
+/** One whitespace-separated field: a comma-separated list of tokens. */
+export interface CronField {
+  name: CronFieldName;
+  source: string;
+  span: Span;
+  items: CronToken[];
+}
+
+/** A parsed expression. Field values are kept in the numbering of `dialect`. */
+export interface CronExpression {
+  dialect: CronDialect;
+  source: string;
+  /** Quartz, Spring, systemd and Azure only; every other dialect starts at the minute. */
+  second?: CronField;
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+  year?: CronField;
+  /** Kubernetes `CRON_TZ=` prefix or systemd time zone suffix. */
+  timeZone?: { name: string; span: Span };
+  /** Set when the fields were expanded from a macro such as `@hourly`. */
+  macro?: string;
+}
+
+export type CronDiagnosticSeverity = "error" | "warning" | "info";
+
+export interface CronDiagnostic {
+  severity: CronDiagnosticSeverity;
+  /** Stable machine-readable identifier, e.g. `out-of-range`. */
+  code: string;
+  message: string;
+  field?: CronFieldName;
+  span?: Span;
+}
+
+export interface ParseOptions {
+  /** Full name of the Jenkins job (`folder/job`); seeds the values `H` resolves to. */
+  jobName?: string;
+}
+
+export interface ParseResult {
+  /** Present whenever the expression had the right shape to build fields. */
+  expression?: CronExpression;
+  diagnostics: CronDiagnostic[];
+}
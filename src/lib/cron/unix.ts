@@ -0,0 +1,203 @@
+import { CronSyntaxError } from "./errors";
+import { expandField } from "./expand";
+import { getFieldSpec, type CronFieldSpec } from "./fields";
+import { compressValues } from "./format";
+import { parseCron } from "./parser";
+import type { CronDiagnostic, CronExpression, CronField, CronToken, ValueToken } from "./types";
+import { checkCronExpression, hasErrors } from "./validator";
+
+export interface UnixConversion {
+  /** Five-field crontab schedules; together they fire at the source's times. */
+  lines: string[];
+  diagnostics: CronDiagnostic[];
+}
+
+const MONTH_LENGTHS = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const formatValue = (token: ValueToken) => (token.name ? token.name.toUpperCase() : String(token.value));
+
+// Plain tokens carry over unchanged, except that `n/step` is spelled as a
+// range because classic Vixie cron only accepts steps on `*` and ranges
+const formatToken = (token: CronToken, spec: CronFieldSpec): string => {
+  switch (token.kind) {
+    case "wildcard":
+    case "noSpecific":
+      return "*";
+    case "value":
+      return formatValue(token);
+    case "range":
+      return `${formatValue(token.start)}-${formatValue(token.end)}`;
+    case "step": {
+      const { base, step } = token;
+      if (base.kind === "wildcard") return `*/${step}`;
+      if (base.kind === "range") return `${formatValue(base.start)}-${formatValue(base.end)}/${step}`;
+      return base.value === spec.min ? `*/${step}` : `${base.value}-${spec.max}/${step}`;
+    }
+    default:
+      throw new Error(`Unsupported ${spec.label} token "${token.kind}"`);
+  }
+};
+
+const formatField = (field: CronField, tokens = field.items) => {
+  const spec = getFieldSpec("eventbridge", field.name);
+  return tokens.map((token) => formatToken(token, spec)).join(",");
+};
+
+// EventBridge: 1=Sunday ... 7=Saturday; Unix: 0=Sunday ... 6=Saturday
+const formatWeekday = (token: ValueToken) => (token.name ? token.name.toUpperCase() : String(token.value - 1));
+
+const formatWeekdayRange = (start: ValueToken, end: ValueToken) =>
+  start.name && end.name
+    ? `${formatWeekday(start)}-${formatWeekday(end)}`
+    : `${start.value - 1}-${end.value - 1}`;
+
+const formatDayOfWeekToken = (token: CronToken): string => {
+  switch (token.kind) {
+    case "wildcard":
+    case "noSpecific":
+      return "*";
+    case "last":
+      // A bare L in day-of-week is the last day of the week
+      return "6";
+    case "value":
+      return formatWeekday(token);
+    case "range":
+      return formatWeekdayRange(token.start, token.end);
+    case "step": {
+      const { base, step } = token;
+      if (base.kind === "wildcard" || (base.kind === "value" && base.value === 1)) return `*/${step}`;
+      if (base.kind === "range") return `${formatWeekdayRange(base.start, base.end)}/${step}`;
+      return `${base.value - 1}-6/${step}`;
+    }
+    default:
+      throw new Error(`Unsupported day-of-week token "${token.kind}"`);
+  }
+};
+
+const unsupported = (field: CronField, token: CronToken, message: string): CronDiagnostic => ({
+  severity: "error",
+  code: "no-unix-equivalent",
+  message,
+  field: field.name,
+  span: token.span,
+});
+
+const findUnsupported = ({ dayOfMonth, dayOfWeek }: CronExpression): CronDiagnostic[] => {
+  const diagnostics: CronDiagnostic[] = [];
+
+  for (const token of dayOfMonth.items) {
+    if (token.kind === "nearestWeekday") {
+      diagnostics.push(
+        unsupported(
+          dayOfMonth,
+          token,
+          `${token.day === "last" ? "LW" : `${token.day}W`} (nearest weekday) has no Unix cron equivalent because the matching day depends on the calendar. Run on the candidate days and check the date in the command instead.`
+        )
+      );
+    }
+  }
+
+  for (const token of dayOfWeek.items) {
+    if (token.kind === "nthWeekday") {
+      const first = (token.nth - 1) * 7 + 1;
+      diagnostics.push(
+        unsupported(
+          dayOfWeek,
+          token,
+          `# (nth weekday) has no Unix cron equivalent. Schedule on day-of-month ${first}-${first + 6} and guard the command with [ "$(date +\\%w)" = ${token.weekday.value - 1} ].`
+        )
+      );
+    } else if (token.kind === "lastWeekday") {
+      diagnostics.push(
+        unsupported(
+          dayOfWeek,
+          token,
+          `L (last weekday of month) has no Unix cron equivalent. Schedule on day-of-week ${formatWeekday(token.weekday)} and guard the command with [ "$(date -d '+7 days' +\\%m)" != "$(date +\\%m)" ].`
+        )
+      );
+    }
+  }
+
+  return diagnostics;
+};
+
+// Expands `L` in day-of-month into one line per month length
+const expandLastDay = (expression: CronExpression, prefix: string, suffix: string) => {
+  const lines: string[] = [];
+  const diagnostics: CronDiagnostic[] = [];
+  const months = expandField(expression.month, getFieldSpec("eventbridge", "month")) ?? [];
+
+  for (const length of [31, 30, 29]) {
+    const matching = months.filter((month) => MONTH_LENGTHS[month - 1] === length);
+    if (!matching.length) continue;
+    // February: 28 is the last day in three years out of four
+    lines.push(`${prefix} ${length === 29 ? 28 : length} ${compressValues(matching)} ${suffix}`);
+  }
+
+  if (months.includes(2)) {
+    diagnostics.push({
+      severity: "warning",
+      code: "leap-year",
+      message:
+        'L in February was expanded to the 28th, so in leap years the job runs on Feb 28 instead of Feb 29. For an exact match run on days 28-31 and guard the command with [ "$(date -d tomorrow +\\%d)" = 01 ].',
+      field: "dayOfMonth",
+    });
+  }
+  return { lines, diagnostics };
+};
+
+/**
+ * Emits crontab schedules for a parsed EventBridge expression. Constructs with
+ * no Unix equivalent are reported as errors and produce no lines; `L` in
+ * day-of-month is expanded into several lines where possible.
+ */
+export function toUnix(expression: CronExpression): UnixConversion {
+  const unsupportedDiagnostics = findUnsupported(expression);
+  if (unsupportedDiagnostics.length) {
+    return { lines: [], diagnostics: unsupportedDiagnostics };
+  }
+
+  const { minute, hour, dayOfMonth, month, dayOfWeek, year } = expression;
+  const diagnostics: CronDiagnostic[] = [];
+  const prefix = `${formatField(minute)} ${formatField(hour)}`;
+  const suffix = [...new Set(dayOfWeek.items.map(formatDayOfWeekToken))].join(",");
+
+  if (year && !(year.items.length === 1 && year.items[0].kind === "wildcard")) {
+    diagnostics.push({
+      severity: "warning",
+      code: "year-dropped",
+      message: `Unix cron has no year field, so the year restriction "${year.source}" was dropped and the job runs every year.`,
+      field: "year",
+      span: year.span,
+    });
+  }
+
+  const plainDays = dayOfMonth.items.filter((token) => token.kind !== "last");
+  const lines: string[] = [];
+  if (plainDays.length) {
+    lines.push(`${prefix} ${formatField(dayOfMonth, plainDays)} ${formatField(month)} ${suffix}`);
+  }
+
+  if (plainDays.length !== dayOfMonth.items.length) {
+    const expanded = expandLastDay(expression, prefix, suffix);
+    lines.push(...expanded.lines);
+    diagnostics.push(...expanded.diagnostics, {
+      severity: "info",
+      code: "last-day-expanded",
+      message: `L (last day of month) has no Unix cron equivalent, so it was expanded into ${expanded.lines.length} crontab lines, one per month length.`,
+      field: "dayOfMonth",
+    });
+  }
+
+  return { lines, diagnostics };
+}
+
+/** Parses, validates and converts an EventBridge expression in one go. */
+export function convertEventBridgeToUnix(source: string): UnixConversion {
+  const { expression, diagnostics } = parseCron(source, "eventbridge");
+  const all = expression ? [...diagnostics, ...checkCronExpression(expression)] : diagnostics;
+  if (!expression || hasErrors(all)) {
+    throw new CronSyntaxError(all);
+  }
+  return toUnix(expression);
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import type { CronDialect } from "./types";
+import { hasErrors, validateCron } from "./validator";
+
+const JOB_NAME = "folder/nightly-build";
+
+// [dialect, expression]
+const ACCEPTED: [CronDialect, string][] = [
+  ["unix", "* * * * *"],
+  ["unix", "0 9 * * 1"],
+  ["unix", "1-5/2,10,20-30 * * * *"],
+  ["unix", "0 9 * * MON-FRI"],
+  ["unix", "0 9 * * mon-fri"],
+  ["unix", "0 9 * JAN-MAR,DEC MON,WED"],
+  ["unix", "*/15 0-23/2 1-31/3 */2 0-7"],
+  ["unix", "0 0 1,15 * 0,7"],
+  ["unix", "5 4 * * sun"],
+  ["unix", "0 0 * * MON-5"],
+  ["unix", "0 22 * * 1-5"],
+  ["unix", "23 0-20/2 * * *"],
+  ["unix", "0 0 29 2 *"],
+  ["unix", "00 09 * * 01"],
+  ["unix", "0 0 * jan,Feb *"],
+  ["unix", "0-59 0-23 1-31 1-12 0-7"],
+  ["unix", "0 12 * * FRI/2"],
+  ["unix", "@daily"],
+  ["eventbridge", "0 18 ? * MON-FRI *"],
+  ["eventbridge", "cron(0 10 * * ? *)"],
+  ["eventbridge", "0/15 * * * ? *"],
+  ["eventbridge", "0 8 1 * ? 2025-2027"],
+  ["eventbridge", "0 10 ? * 6#3 *"],
+  ["eventbridge", "0 10 L * ? *"],
+  ["eventbridge", "0 10 15W * ? *"],
+  ["eventbridge", "0 10 LW * ? *"],
+  ["eventbridge", "0 10 ? * 6L *"],
+  ["eventbridge", "0 10 ? * FRIL *"],
+  ["eventbridge", "0 10 ? * L *"],
+  ["eventbridge", "1-5/2,10,20-30 * ? * MON *"],
+  ["eventbridge", "0 0 ? * SUN#1 2030/2"],
+  ["quartz", "0 0 12 ? * MON-FRI"],
+  ["quartz", "0 15 10 ? * 6L 2025"],
+  ["quartz", "0 0/5 14 * * ?"],
+  ["quartz", "0 0 12 1W * ?"],
+  ["spring", "0 0 12 * * MON-FRI"],
+  ["spring", "*/10 * * * * *"],
+  ["spring", "0 0 0 L * *"],
+  ["spring", "0 0 12 ? * MON"],
+  ["kubernetes", "@hourly"],
+  ["kubernetes", "CRON_TZ=Europe/Berlin 0 9 * * *"],
+  ["kubernetes", "TZ=UTC */5 * * * *"],
+  ["github", "*/15 * * * *"],
+  ["github", "30 5 * * 1,3"],
+  ["systemd", "Mon..Fri *-*-* 09:00:00"],
+  ["systemd", "weekly"],
+  ["systemd", "*-*-01 00:00:00"],
+  ["systemd", "Sat,Sun 10:30"],
+  ["systemd", "*-*-* 09:00:00 Europe/Berlin"],
+  ["azure", "0 */5 * * * *"],
+  ["azure", "0 30 9 * * 1-5"],
+  ["azure", "0 0 0 1 Jan *"],
+  ["gcp", "0 9 * * 1-5"],
+  ["gcp", "*/5 * * * *"],
+  ["jenkins", "H H * * *"],
+  ["jenkins", "H(0-29)/10 * * * *"],
+  ["jenkins", "@midnight"],
+  ["jenkins", "H/15 * * * 1-5"],
+];
+
+// [dialect, expression, code of the first error, its span]
+const REJECTED: [CronDialect, string, string, [number, number]][] = [
+  ["unix", "", "field-count", [0, 0]],
+  ["unix", "* * * *", "field-count", [0, 7]],
+  ["unix", "* * * * * *", "field-count", [0, 11]],
+  ["unix", "MONXYZ * * * *", "invalid-value", [0, 6]],
+  ["unix", "0 9 * * MONXYZ", "invalid-value", [8, 14]],
+  ["unix", "0 9 * * MONDAY", "invalid-value", [8, 14]],
+  ["unix", "5abc * * * *", "invalid-value", [0, 4]],
+  ["unix", "0 24 * * *", "out-of-range", [2, 4]],
+  ["unix", "60 * * * *", "out-of-range", [0, 2]],
+  ["unix", "0 0 0 * *", "out-of-range", [4, 5]],
+  ["unix", "0 0 32 * *", "out-of-range", [4, 6]],
+  ["unix", "0 0 * 13 *", "out-of-range", [6, 8]],
+  ["unix", "0 0 * 0 *", "out-of-range", [6, 7]],
+  ["unix", "0 0 * * 8", "out-of-range", [8, 9]],
+  ["unix", "*/0 * * * *", "invalid-step", [0, 3]],
+  ["unix", "1-2-3 * * * *", "invalid-value", [2, 5]],
+  ["unix", "*/5/2 * * * *", "invalid-step", [2, 5]],
+  ["unix", "1/ * * * *", "invalid-step", [2, 2]],
+  ["unix", "/5 * * * *", "invalid-value", [0, 0]],
+  ["unix", "5- * * * *", "invalid-value", [2, 2]],
+  ["unix", "-5 * * * *", "invalid-value", [0, 0]],
+  ["unix", "*-5 * * * *", "invalid-value", [0, 1]],
+  ["unix", "1,,2 * * * *", "empty-item", [2, 3]],
+  ["unix", ",1 * * * *", "empty-item", [0, 1]],
+  ["unix", "1, * * * *", "empty-item", [2, 3]],
+  ["unix", "5-1 * * * *", "reversed-range", [0, 3]],
+  ["unix", "+5 * * * *", "invalid-value", [0, 2]],
+  ["unix", "5.0 * * * *", "invalid-value", [0, 3]],
+  ["unix", "0x5 * * * *", "invalid-value", [0, 3]],
+  ["unix", "1e1 * * * *", "invalid-value", [0, 3]],
+  ["unix", "? * * * *", "unsupported-token", [0, 1]],
+  ["unix", "0 0 ? * *", "unsupported-token", [4, 5]],
+  ["unix", "0 0 L * *", "unsupported-token", [4, 5]],
+  ["unix", "0 0 15W * *", "unsupported-token", [4, 7]],
+  ["unix", "0 0 * * 5L", "unsupported-token", [8, 10]],
+  ["unix", "0 0 * * 5#2", "unsupported-token", [8, 11]],
+  ["unix", "0 0 * * MON#2", "unsupported-token", [8, 13]],
+  ["unix", "# * * * *", "invalid-value", [0, 1]],
+  ["unix", "0 0 * JANUARY *", "invalid-value", [6, 13]],
+  ["unix", "0 0 * * FRI-", "invalid-value", [12, 12]],
+  ["unix", "0 0 * * -FRI", "invalid-value", [8, 8]],
+  ["unix", "0 0 * JAN/MON *", "invalid-step", [10, 13]],
+  ["unix", "0 0 * * */", "invalid-step", [10, 10]],
+  ["unix", "0 0 * * SUN-MON-TUE", "invalid-value", [12, 19]],
+  ["unix", "* * * * *,", "empty-item", [10, 11]],
+  ["unix", "0 9 * * 1 extra", "field-count", [0, 15]],
+  ["unix", "@reboot", "reboot-macro", [0, 7]],
+  ["eventbridge", "0 18 * * MON-FRI *", "day-fields-conflict", [5, 16]],
+  ["eventbridge", "0 18 ? * ? *", "day-fields-conflict", [5, 10]],
+  ["eventbridge", "0 18 ? * MON-FRI", "field-count", [0, 16]],
+  ["eventbridge", "0 18 ? * MON-FRI * *", "field-count", [0, 20]],
+  ["eventbridge", "cron(0 18 ? * MON-FRI *", "invalid-value", [0, 6]],
+  ["eventbridge", "0 10 ? * 6#6 *", "invalid-value", [9, 12]],
+  ["eventbridge", "0 10 ? * 6#0 *", "invalid-value", [9, 12]],
+  ["eventbridge", "0 10 ? * 6#3,2 *", "invalid-list", [9, 14]],
+  ["eventbridge", "0 10 32W * ? *", "invalid-value", [5, 8]],
+  ["eventbridge", "0 10 0W * ? *", "invalid-value", [5, 7]],
+  ["eventbridge", "0 10 ? * 9L *", "out-of-range", [9, 10]],
+  ["eventbridge", "0 10 ? * 0 *", "out-of-range", [9, 10]],
+  ["eventbridge", "0 10 ? * 8 *", "out-of-range", [9, 10]],
+  ["eventbridge", "0 10 L-3 * ? *", "invalid-value", [5, 8]],
+  ["eventbridge", "0 0 * * ? 1969", "out-of-range", [10, 14]],
+  ["eventbridge", "0 0 * * ? 2200", "out-of-range", [10, 14]],
+  ["eventbridge", "0 0 LW,? * ? *", "invalid-list", [4, 8]],
+  ["eventbridge", "0 0 ?,1 * ? *", "invalid-list", [4, 7]],
+  ["eventbridge", "0 0 W * ? *", "invalid-value", [4, 5]],
+  ["eventbridge", "0 10 ? * MON#X *", "invalid-value", [9, 14]],
+  ["eventbridge", "L * * * ? *", "unsupported-token", [0, 1]],
+  ["eventbridge", "0 L * * ? *", "unsupported-token", [2, 3]],
+  ["eventbridge", "0 0 * L ? *", "unsupported-token", [6, 7]],
+  ["eventbridge", "0 0 * * ? L", "unsupported-token", [10, 11]],
+  ["eventbridge", "0 0 5L * ? *", "unsupported-token", [4, 6]],
+  ["quartz", "0 0 12 * * MON", "day-fields-conflict", [7, 14]],
+  ["quartz", "61 0 12 ? * *", "out-of-range", [0, 2]],
+  ["quartz", "0 0 12 ? * 8", "out-of-range", [11, 12]],
+  ["spring", "0 0 12 * * 8", "out-of-range", [11, 12]],
+  ["spring", "0 0 12 * *", "field-count", [0, 10]],
+  ["kubernetes", "CRON_TZ=Nowhere/Land 0 9 * * *", "invalid-time-zone", [8, 20]],
+  ["kubernetes", "@reboot", "reboot-macro", [0, 7]],
+  ["kubernetes", "0 9 * * * *", "field-count", [0, 11]],
+  ["github", "0 9 ? * *", "unsupported-token", [4, 5]],
+  ["github", "@daily", "field-count", [0, 6]],
+  ["systemd", "Mon..Xyz *-*-* 09:00", "invalid-value", [5, 8]],
+  ["systemd", "*-*-* 25:00", "out-of-range", [6, 8]],
+  ["azure", "0 0 9 * * 8", "out-of-range", [10, 11]],
+  ["azure", "0 9 * * *", "field-count", [0, 9]],
+  ["gcp", "0 9 * * 7", "out-of-range", [8, 9]],
+  ["gcp", "0 0 9 * * *", "field-count", [0, 11]],
+  ["jenkins", "H(5-1) * * * *", "invalid-hash-range", [0, 6]],
+  ["jenkins", "H/0 * * * *", "invalid-step", [0, 3]],
+];
+
+describe("validateCron", () => {
+  it.each(ACCEPTED)("accepts %s %j", (dialect, expression) => {
+    expect(hasErrors(validateCron(expression, dialect, { jobName: JOB_NAME }))).toBe(false);
+  });
+
+  it.each(REJECTED)("rejects %s %j with %s", (dialect, expression, code, [start, end]) => {
+    const [error] = validateCron(expression, dialect, { jobName: JOB_NAME }).filter(
+      (diagnostic) => diagnostic.severity === "error"
+    );
+    expect(error).toMatchObject({ code, span: { start, end } });
+  });
+});
@@ -0,0 +1,244 @@
+import { getFieldSpec, type CronFieldSpec } from "./fields";
+import { checkGitHubInterval } from "./github";
+import { parseCron } from "./parser";
+import type {
+  CronDiagnostic,
+  CronDialect,
+  CronExpression,
+  CronField,
+  CronFieldName,
+  CronToken,
+  ParseOptions,
+  ValueToken,
+} from "./types";
+
+const checkValue = (token: ValueToken, spec: CronFieldSpec, diagnostics: CronDiagnostic[]) => {
+  if (token.value < spec.min || token.value > spec.max) {
+    diagnostics.push({
+      severity: "error",
+      code: "out-of-range",
+      message: `${spec.label} ${token.value} out of range ${spec.min}-${spec.max}`,
+      field: spec.name,
+      span: token.span,
+    });
+  }
+};
+
+const SPECIAL_TOKEN_LABELS: Partial<Record<CronToken["kind"], string>> = {
+  noSpecific: "? (no specific value)",
+  last: "L (last)",
+  nearestWeekday: "W (nearest weekday)",
+  lastWeekday: "L (last weekday of month)",
+  nthWeekday: "# (nth weekday of month)",
+};
+
+// Fields in which each special token may appear, per dialect
+const SPECIAL_TOKEN_FIELDS: Record<CronDialect, Partial<Record<CronToken["kind"], CronFieldName[]>>> = {
+  unix: {},
+  kubernetes: {},
+  github: {},
+  azure: {},
+  gcp: {},
+  jenkins: {},
+  // `~` days count back from the end of the month
+  systemd: { last: ["dayOfMonth"] },
+  eventbridge: {
+    noSpecific: ["dayOfMonth", "dayOfWeek"],
+    last: ["dayOfMonth", "dayOfWeek"],
+    nearestWeekday: ["dayOfMonth"],
+    lastWeekday: ["dayOfWeek"],
+    nthWeekday: ["dayOfWeek"],
+  },
+  quartz: {
+    noSpecific: ["dayOfMonth", "dayOfWeek"],
+    last: ["dayOfMonth", "dayOfWeek"],
+    nearestWeekday: ["dayOfMonth"],
+    lastWeekday: ["dayOfWeek"],
+    nthWeekday: ["dayOfWeek"],
+  },
+  // Spring only knows L in day-of-week with a weekday in front of it
+  spring: {
+    noSpecific: ["dayOfMonth", "dayOfWeek"],
+    last: ["dayOfMonth"],
+    nearestWeekday: ["dayOfMonth"],
+    lastWeekday: ["dayOfWeek"],
+    nthWeekday: ["dayOfWeek"],
+  },
+};
+
+// Dialects without any special tokens, named for the "not supported in" message
+const PLAIN_DIALECTS: Partial<Record<CronDialect, string>> = {
+  unix: "Unix cron",
+  kubernetes: "Kubernetes schedules",
+  github: "GitHub Actions schedules",
+  azure: "Azure NCRONTAB",
+  gcp: "Cloud Scheduler schedules",
+  jenkins: "Jenkins",
+};
+
+// `L-3` (three days before the last day of the month) is a Quartz and Spring
+// extension; systemd writes it as `~04`
+const LAST_OFFSET_DIALECTS: CronDialect[] = ["quartz", "spring", "systemd"];
+
+// Dialects that need `?` in exactly one day field
+const NO_SPECIFIC_DIALECTS: Partial<Record<CronDialect, string>> = {
+  eventbridge: "EventBridge",
+  quartz: "Quartz",
+};
+
+const checkSpecialToken = (
+  token: CronToken,
+  spec: CronFieldSpec,
+  dialect: CronDialect,
+  diagnostics: CronDiagnostic[]
+): boolean => {
+  const label = SPECIAL_TOKEN_LABELS[token.kind];
+  if (!label) return true;
+
+  const allowed = SPECIAL_TOKEN_FIELDS[dialect][token.kind];
+  if (!allowed?.includes(spec.name)) {
+    diagnostics.push({
+      severity: "error",
+      code: "unsupported-token",
+      message: PLAIN_DIALECTS[dialect]
+        ? `${label} is not supported in ${PLAIN_DIALECTS[dialect]}`
+        : `${label} is not allowed in the ${spec.label} field`,
+      field: spec.name,
+      span: token.span,
+    });
+    return false;
+  }
+
+  const invalid = (message: string) => {
+    diagnostics.push({ severity: "error", code: "invalid-value", message, field: spec.name, span: token.span });
+    return false;
+  };
+
+  switch (token.kind) {
+    case "last":
+      if (token.offset !== 0 && !LAST_OFFSET_DIALECTS.includes(dialect)) {
+        return invalid(`L-${token.offset} offsets are not supported`);
+      }
+      if (token.offset > 30) return invalid(`L-${token.offset} offset out of range 0-30`);
+      break;
+    case "nearestWeekday":
+      if (token.day !== "last" && (token.day < spec.min || token.day > spec.max)) {
+        return invalid(`${spec.label} ${token.day} out of range ${spec.min}-${spec.max}`);
+      }
+      break;
+    case "lastWeekday":
+      checkValue(token.weekday, spec, diagnostics);
+      break;
+    case "nthWeekday":
+      checkValue(token.weekday, spec, diagnostics);
+      if (token.nth < 1 || token.nth > 5) return invalid(`# occurrence ${token.nth} out of range 1-5`);
+      break;
+  }
+  return true;
+};
+
+const checkToken = (token: CronToken, spec: CronFieldSpec, dialect: CronDialect, diagnostics: CronDiagnostic[]) => {
+  if (!checkSpecialToken(token, spec, dialect, diagnostics)) return;
+
+  switch (token.kind) {
+    case "value":
+      checkValue(token, spec, diagnostics);
+      break;
+    case "range":
+      checkValue(token.start, spec, diagnostics);
+      checkValue(token.end, spec, diagnostics);
+      if (token.start.value > token.end.value) {
+        diagnostics.push({
+          severity: "error",
+          code: "reversed-range",
+          message: `${spec.label} range ${token.start.value}-${token.end.value} starts after it ends`,
+          field: spec.name,
+          span: token.span,
+        });
+      }
+      break;
+    case "step":
+      if (token.step <= 0) {
+        diagnostics.push({
+          severity: "error",
+          code: "invalid-step",
+          message: `${spec.label} step must be > 0`,
+          field: spec.name,
+          span: token.span,
+        });
+      }
+      if (token.base.kind !== "wildcard") checkToken(token.base, spec, dialect, diagnostics);
+      break;
+  }
+};
+
+const checkField = (field: CronField, dialect: CronDialect, diagnostics: CronDiagnostic[]) => {
+  const spec = getFieldSpec(dialect, field.name);
+  if (!spec) return;
+  field.items.forEach((token) => checkToken(token, spec, dialect, diagnostics));
+
+  const standalone = field.items.find((token) => token.kind === "noSpecific" || token.kind === "nthWeekday");
+  if (standalone && field.items.length > 1 && !PLAIN_DIALECTS[dialect]) {
+    diagnostics.push({
+      severity: "error",
+      code: "invalid-list",
+      message: `${SPECIAL_TOKEN_LABELS[standalone.kind]} cannot be combined with other values in ${spec.label}`,
+      field: field.name,
+      span: field.span,
+    });
+  }
+};
+
+const isNoSpecific = (field: CronField) => field.items.length === 1 && field.items[0].kind === "noSpecific";
+
+// EventBridge and Quartz need "?" in exactly one of the two day fields
+const checkNoSpecificDays = (
+  { dayOfMonth, dayOfWeek }: CronExpression,
+  label: string,
+  diagnostics: CronDiagnostic[]
+) => {
+  if (isNoSpecific(dayOfMonth) === isNoSpecific(dayOfWeek)) {
+    diagnostics.push({
+      severity: "error",
+      code: "day-fields-conflict",
+      message: `${label} requires ? in exactly one of day-of-month or day-of-week`,
+      field: "dayOfWeek",
+      span: { start: dayOfMonth.span.start, end: dayOfWeek.span.end },
+    });
+  }
+};
+
+/** Range and dialect checks for an already parsed expression. */
+export function checkCronExpression(expression: CronExpression): CronDiagnostic[] {
+  const diagnostics: CronDiagnostic[] = [];
+  const { second, minute, hour, dayOfMonth, month, dayOfWeek, year } = expression;
+  [second, minute, hour, dayOfMonth, month, dayOfWeek, year]
+    .filter((field): field is CronField => field !== undefined)
+    .forEach((field) => checkField(field, expression.dialect, diagnostics));
+  if (expression.dialect === "kubernetes" && expression.timeZone) {
+    diagnostics.push({
+      severity: "warning",
+      code: "time-zone-prefix",
+      message: `Kubernetes 1.29 and later reject a time zone prefix in spec.schedule; set spec.timeZone: "${expression.timeZone.name}" instead`,
+      span: expression.timeZone.span,
+    });
+  }
+  if (expression.dialect === "github") diagnostics.push(...checkGitHubInterval(expression));
+  const noSpecificLabel = NO_SPECIFIC_DIALECTS[expression.dialect];
+  if (noSpecificLabel) checkNoSpecificDays(expression, noSpecificLabel, diagnostics);
+  return diagnostics;
+}
+
+/** Parses and checks an expression, returning every problem found. */
+export function validateCron(
+  source: string,
+  dialect: CronDialect = "unix",
+  options: ParseOptions = {}
+): CronDiagnostic[] {
+  const { expression, diagnostics } = parseCron(source, dialect, options);
+  if (!expression) return diagnostics;
+  return [...diagnostics, ...checkCronExpression(expression)];
+}
+
+export const hasErrors = (diagnostics: CronDiagnostic[]) =>
+  diagnostics.some((diagnostic) => diagnostic.severity === "error");
@@ -1,215 +1,432 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
 import { Copy, Clock, ArrowRight, Info } from "lucide-react";
+import CopyFormatMenu from "@/components/CopyFormatMenu";
+import CrontabImport from "@/components/CrontabImport";
+import DstTransitionsPanel from "@/components/DstTransitionsPanel";
+import HighlightedCronInput from "@/components/HighlightedCronInput";
+import NextRunsTable from "@/components/NextRunsTable";
+import SchedulerOptionsForm from "@/components/SchedulerOptionsForm";
+import TemplateExport from "@/components/TemplateExport";
 import { useToast } from "@/hooks/use-toast";
+import {
+  convertCronToEventBridge,
+  convertEventBridgeToUnix,
+  convertRateToUnix,
+  getFieldSpec,
+  cronToRate,
+  describeCron,
+  describeRate,
+  hasErrors,
+  isRateExpression,
+  parseCron,
+  parseRate,
+  toAzureTimerTriggers,
+  toCloudSchedulerJobs,
+  toGitHubSchedule,
+  toKubernetesCronJobs,
+  toSystemdTimer,
+  toSchedulerSchedules,
+  unwrapCron,
+  validateCron,
+  COMMON_TIME_ZONES,
+  CONVERSION_EXAMPLES,
+  CronSyntaxError,
+  DESCRIPTION_LOCALES,
+  type CloudFormationOptions,
+  type CronDiagnostic,
+  type CronDialect,
+  type CronExpression,
+  type DescriptionLanguage,
+  type DstReport,
+  type SchedulerOptions,
+  type SourceDialect,
+} from "@/lib/cron";
 
-const Index = () => {
-  const [unixCron, setUnixCron] = useState("0 9 * * 1");
-  const [eventBridgeCron, setEventBridgeCron] = useState("");
-  const [isValid, setIsValid] = useState(true);
-  const [error, setError] = useState("");
-  const { toast } = useToast();
+type Direction = "unix-to-eventbridge" | "eventbridge-to-unix";
+type OutputTarget = "rule" | "scheduler";
+type OutputDialect = "unix" | "kubernetes" | "github" | "systemd" | "azure" | "gcp";
 
-  const convertCronToEventBridge = (cronExpression: string) => {
-    try {
-      // Remove extra whitespace and split
-      const parts = cronExpression.trim().split(/\s+/);
-      
-      if (parts.length !== 5) {
-        throw new Error("Unix cron must have exactly 5 fields: minute hour day-of-month month day-of-week");
-      }
+const DIRECTIONS: Record<
+  Direction,
+  {
+    from: CronDialect;
+    to: CronDialect;
+    inputLabel: string;
+    inputPlaceholder: string;
+    inputFormat: string;
+    outputLabel: string;
+    outputFormat: string;
+    copied: string;
+  }
+> = {
+  "unix-to-eventbridge": {
+    from: "unix",
+    to: "eventbridge",
+    inputLabel: "Unix Cron Expression (5 fields)",
+    inputPlaceholder: "0 9 * * 1",
+    inputFormat: "minute hour day-of-month month day-of-week",
+    outputLabel: "AWS EventBridge Cron Expression",
+    outputFormat: "minute hour day-of-month month day-of-week year",
+    copied: "EventBridge cron expression copied to clipboard",
+  },
+  "eventbridge-to-unix": {
+    from: "eventbridge",
+    to: "unix",
+    inputLabel: "AWS EventBridge Cron Expression (6 fields)",
+    inputPlaceholder: "cron(0 18 ? * 2-6 *)",
+    inputFormat: "minute hour day-of-month month day-of-week year, optionally wrapped in cron(...), or rate(value unit)",
+    outputLabel: "Unix Crontab Line",
+    outputFormat: "minute hour day-of-month month day-of-week",
+    copied: "Crontab line copied to clipboard",
+  },
+};
 
-      let [minute, hour, dayOfMonth, month, dayOfWeek] = parts;
-
-      // Handle day-of-week conversion (Unix: 0=Sunday, EventBridge: 1=Sunday)
-      if (dayOfWeek !== "*") {
-        // Handle named days first (SUN, MON, etc.)
-        dayOfWeek = dayOfWeek.replace(/SUN/gi, "1")
-                             .replace(/MON/gi, "2")
-                             .replace(/TUE/gi, "3")
-                             .replace(/WED/gi, "4")
-                             .replace(/THU/gi, "5")
-                             .replace(/FRI/gi, "6")
-                             .replace(/SAT/gi, "7");
-        
-        // Handle ranges like 1-5 (Mon-Fri in Unix becomes 2-6 in EventBridge)
-        dayOfWeek = dayOfWeek.replace(/(\d)-(\d)/g, (match, start, end) => {
-          const startNum = parseInt(start);
-          const endNum = parseInt(end);
-          
-          // Convert 0 (Sunday) to 1, and shift 1-6 to 2-7
-          const newStart = startNum === 0 ? 1 : startNum + 1;
-          const newEnd = endNum === 0 ? 1 : endNum + 1;
-          
-          return `${newStart}-${newEnd}`;
-        });
-        
-        // Handle comma-separated lists like 1,3,5
-        dayOfWeek = dayOfWeek.replace(/\b(\d)\b/g, (match, num) => {
-          const numVal = parseInt(num);
-          if (numVal === 0) return "1"; // Sunday: 0 -> 1
-          if (numVal >= 1 && numVal <= 6) return String(numVal + 1); // 1-6 -> 2-7
-          return match; // Keep 7 as is (Sunday can be 7 in Unix too)
-        });
-
-        // Handle step values like */2 or 1/2
-        if (dayOfWeek.includes("/")) {
-          const [range, step] = dayOfWeek.split("/");
-          if (range === "*") {
-            dayOfWeek = `*/${step}`;
-          } else if (range.includes("-")) {
-            // Already handled above in range conversion
-          } else if (!isNaN(parseInt(range))) {
-            const baseNum = parseInt(range);
-            const convertedBase = baseNum === 0 ? 1 : (baseNum >= 1 && baseNum <= 6 ? baseNum + 1 : baseNum);
-            dayOfWeek = `${convertedBase}/${step}`;
-          }
-        }
-      }
+// Input dialects of the cron → EventBridge direction
+const SOURCE_DIALECTS: Record<
+  SourceDialect,
+  { name: string; inputLabel: string; inputPlaceholder: string; inputFormat: string; zoneHint?: string }
+> = {
+  unix: {
+    name: "Unix",
+    inputLabel: "Unix Cron Expression (5 fields)",
+    inputPlaceholder: "0 9 * * 1",
+    inputFormat: "minute hour day-of-month month day-of-week, or a macro such as @daily",
+  },
+  quartz: {
+    name: "Quartz",
+    inputLabel: "Quartz Cron Expression (6 or 7 fields)",
+    inputPlaceholder: "0 0 9 ? * MON",
+    inputFormat: "second minute hour day-of-month month day-of-week [year], Sunday = 1",
+  },
+  spring: {
+    name: "Spring",
+    inputLabel: "Spring Cron Expression (6 fields)",
+    inputPlaceholder: "0 0 9 * * MON",
+    inputFormat: "second minute hour day-of-month month day-of-week, Sunday = 0",
+  },
+  kubernetes: {
+    name: "Kubernetes",
+    inputLabel: "Kubernetes CronJob Schedule (spec.schedule)",
+    inputPlaceholder: "0 9 * * 1-5",
+    inputFormat:
+      "minute hour day-of-month month day-of-week or a macro such as @daily, optionally prefixed with CRON_TZ=<zone>",
+    zoneHint: "The CronJob's spec.timeZone; a CRON_TZ= prefix in the schedule takes precedence",
+  },
+  github: {
+    name: "GitHub Actions",
+    inputLabel: "GitHub Actions Schedule (on.schedule.cron)",
+    inputPlaceholder: "30 5 * * 1-5",
+    inputFormat: "minute hour day-of-month month day-of-week, always UTC, at most every 5 minutes",
+  },
+  systemd: {
+    name: "systemd",
+    inputLabel: "systemd Calendar Event (OnCalendar=)",
+    inputPlaceholder: "Mon..Fri *-*-* 09:00:00",
+    inputFormat: "[weekdays] [year-]month-day hour:minute[:second] [time zone], or daily, weekly, monthly...",
+    zoneHint: "The host's local time zone; a zone at the end of the event takes precedence",
+  },
+  azure: {
+    name: "Azure Functions",
+    inputLabel: "Azure Functions NCRONTAB Expression (6 fields)",
+    inputPlaceholder: "0 0 9 * * 1-5",
+    inputFormat: "second minute hour day-of-month month day-of-week, Sunday = 0",
+    zoneHint: "The function app's WEBSITE_TIME_ZONE setting; UTC when unset",
+  },
+  gcp: {
+    name: "Cloud Scheduler",
+    inputLabel: "Google Cloud Scheduler Schedule (5 fields)",
+    inputPlaceholder: "0 9 * * 1-5",
+    inputFormat: "minute hour day-of-month month day-of-week, Sunday = 0",
+    zoneHint: "The job's time zone setting (--time-zone)",
+  },
+  jenkins: {
+    name: "Jenkins",
+    inputLabel: "Jenkins Build Trigger (Build periodically)",
+    inputPlaceholder: "H H(0-7) * * 1-5",
+    inputFormat: "minute hour day-of-month month day-of-week, where H or H(a-b) picks a value from the job name",
+    zoneHint: "The Jenkins controller's time zone",
+  },
+};
 
-      // Handle mutual exclusivity of day-of-month and day-of-week in EventBridge
-      if (dayOfMonth !== "*" && dayOfWeek !== "*") {
-        // If both are specified, EventBridge requires one to be "?"
-        // We'll prioritize day-of-month and set day-of-week to "?"
-        dayOfWeek = "?";
-      } else if (dayOfMonth === "*" && dayOfWeek === "*") {
-        // If both are wildcards, keep day-of-month as "*" and set day-of-week to "?"
-        dayOfWeek = "?";
-      } else if (dayOfMonth === "*" && dayOfWeek !== "*") {
-        // If day-of-month is wildcard and day-of-week is specific, set day-of-month to "?"
-        dayOfMonth = "?";
-      }
+// Five-field crontab flavours that can also become a systemd timer unit
+const TIMER_SOURCES: SourceDialect[] = ["unix", "kubernetes", "github", "gcp", "jenkins"];
 
-      // EventBridge format: minute hour day-of-month month day-of-week year
-      const eventBridgeExpression = `${minute} ${hour} ${dayOfMonth} ${month} ${dayOfWeek} *`;
-      
-      return eventBridgeExpression;
-    } catch (err) {
-      throw new Error(err instanceof Error ? err.message : "Invalid cron expression");
-    }
-  };
+// Output formats of the EventBridge → cron direction
+const OUTPUT_DIALECTS: Record<
+  OutputDialect,
+  { name: string; outputLabel: string; copied: string; definitionLabel?: string }
+> = {
+  unix: { name: "Crontab", outputLabel: "Unix Crontab Line", copied: "Crontab line copied to clipboard" },
+  kubernetes: {
+    name: "Kubernetes CronJob",
+    outputLabel: "Kubernetes CronJob Schedule",
+    copied: "Kubernetes schedule copied to clipboard",
+    definitionLabel: "Kubernetes CronJob Manifest (kubectl apply -f -)",
+  },
+  github: {
+    name: "GitHub Actions",
+    outputLabel: "GitHub Actions Schedule",
+    copied: "GitHub Actions schedule copied to clipboard",
+    definitionLabel: "Workflow Trigger (on: schedule:)",
+  },
+  systemd: {
+    name: "systemd Timer",
+    outputLabel: "systemd Calendar Event",
+    copied: "OnCalendar expression copied to clipboard",
+    definitionLabel: "systemd Timer Unit (.timer)",
+  },
+  azure: {
+    name: "Azure Functions",
+    outputLabel: "Azure NCRONTAB Expression",
+    copied: "NCRONTAB expression copied to clipboard",
+    definitionLabel: "Timer Trigger Binding (function.json)",
+  },
+  gcp: {
+    name: "Cloud Scheduler",
+    outputLabel: "Cloud Scheduler Schedule",
+    copied: "Cloud Scheduler schedule copied to clipboard",
+    definitionLabel: "Cloud Scheduler Jobs (gcloud)",
+  },
+};
 
-  const validateCronExpression = (cronExpression: string) => {
-    const parts = cronExpression.trim().split(/\s+/);
-    if (parts.length !== 5) return false;
-    
-    const [minute, hour, dayOfMonth, month, dayOfWeek] = parts;
-    
-    // Validate each field
-    if (!isValidCronField(minute, 0, 59, "minute")) return false;
-    if (!isValidCronField(hour, 0, 23, "hour")) return false;
-    if (!isValidCronField(dayOfMonth, 1, 31, "dayOfMonth")) return false;
-    if (!isValidCronField(month, 1, 12, "month")) return false;
-    if (!isValidCronField(dayOfWeek, 0, 7, "dayOfWeek")) return false;
-    
-    return true;
-  };
+const NOTE_STYLES: Record<CronDiagnostic["severity"], { alert: string; text: string }> = {
+  error: { alert: "bg-red-900/50 border-red-700", text: "text-red-200" },
+  warning: { alert: "bg-yellow-900/40 border-yellow-700", text: "text-yellow-200" },
+  info: { alert: "bg-purple-900/40 border-purple-700", text: "text-purple-200" },
+};
 
-  const isValidCronField = (field: string, min: number, max: number, fieldType: string): boolean => {
-    // Allow wildcards
-    if (field === "*") return true;
-    
-    // Handle EventBridge-specific wildcards (note: these are not valid in Unix cron but we'll document the limitation)
-    if (fieldType === "dayOfMonth") {
-      // L wildcard (last day of month) - not valid in Unix cron
-      if (field === "L") return false; // Unix doesn't support L
-      // W wildcard (weekday) - not valid in Unix cron  
-      if (field.includes("W")) return false; // Unix doesn't support W
-    }
-    
-    if (fieldType === "dayOfWeek") {
-      // # wildcard (nth occurrence) - not valid in Unix cron
-      if (field.includes("#")) return false; // Unix doesn't support #
-      // L wildcard (last occurrence) - not valid in Unix cron
-      if (field.includes("L")) return false; // Unix doesn't support L
-    }
-    
-    // Allow named days for day-of-week
-    if (fieldType === "dayOfWeek" && field.match(/^(SUN|MON|TUE|WED|THU|FRI|SAT)(-|,|\/)*[A-Z0-9,\-\/]*$/i)) {
-      return true;
-    }
-    
-    // Allow named months for month field
-    if (fieldType === "month" && field.match(/^(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)(-|,|\/)*[A-Z0-9,\-\/]*$/i)) {
-      return true;
-    }
-    
-    // Allow step values like */5 or 0/15
-    if (field.includes("/")) {
-      const [range, step] = field.split("/");
-      const stepNum = parseInt(step);
-      
-      if (isNaN(stepNum) || stepNum <= 0) return false;
-      
-      if (range === "*") return true;
-      
-      // Handle ranges with steps like 1-10/2
-      if (range.includes("-")) {
-        const [start, end] = range.split("-").map(n => parseInt(n));
-        return !isNaN(start) && !isNaN(end) && start >= min && end <= max && start <= end;
-      }
-      
-      // Handle single number with step like 0/15
-      const rangeNum = parseInt(range);
-      return !isNaN(rangeNum) && rangeNum >= min && rangeNum <= max;
-    }
-    
-    // Allow ranges like 1-5
-    if (field.includes("-")) {
-      const [start, end] = field.split("-").map(n => parseInt(n));
-      return !isNaN(start) && !isNaN(end) && start >= min && end <= max && start <= end;
-    }
-    
-    // Allow comma-separated lists like 1,3,5
-    if (field.includes(",")) {
-      const values = field.split(",").map(v => v.trim());
-      return values.every(val => {
-        const num = parseInt(val);
-        return !isNaN(num) && num >= min && num <= max;
-      });
-    }
-    
-    // Single number
-    const num = parseInt(field);
-    return !isNaN(num) && num >= min && num <= max;
-  };
+// "hour, characters 3-4" for diagnostics that point into the input
+const describeLocation = ({ field, span }: CronDiagnostic, dialect: CronDialect) => {
+  const label = field && getFieldSpec(dialect, field)?.label;
+  const characters =
+    span && (span.end - span.start > 1 ? `characters ${span.start + 1}-${span.end}` : `character ${span.start + 1}`);
+  return [label, characters].filter(Boolean).join(", ");
+};
+
+const Index = () => {
+  const [direction, setDirection] = useState<Direction>("unix-to-eventbridge");
+  const [sourceDialect, setSourceDialect] = useState<SourceDialect>("unix");
+  const [cronInput, setCronInput] = useState("0 9 * * 1");
+  const [timeZone, setTimeZone] = useState("UTC");
+  const [splitAtDst, setSplitAtDst] = useState(true);
+  const [outputTarget, setOutputTarget] = useState<OutputTarget>("rule");
+  const [outputDialect, setOutputDialect] = useState<OutputDialect>("unix");
+  const [schedulerOptions, setSchedulerOptions] = useState<SchedulerOptions>({});
+  const [jobName, setJobName] = useState("");
+  const [definition, setDefinition] = useState("");
+  const [rateExpression, setRateExpression] = useState<string>();
+  const [language, setLanguage] = useState<DescriptionLanguage>("en");
+  const [convertedExpressions, setConvertedExpressions] = useState<string[]>([]);
+  const [conversionNotes, setConversionNotes] = useState<CronDiagnostic[]>([]);
+  const [dstReport, setDstReport] = useState<DstReport>();
+  const [errors, setErrors] = useState<CronDiagnostic[]>([]);
+  const { toast } = useToast();
+  const labels = useMemo(
+    () =>
+      direction === "unix-to-eventbridge"
+        ? { ...DIRECTIONS[direction], ...SOURCE_DIALECTS[sourceDialect], from: sourceDialect }
+        : { ...DIRECTIONS[direction], ...OUTPUT_DIALECTS[outputDialect], to: outputDialect },
+    [direction, sourceDialect, outputDialect]
+  );
+
+  // A Kubernetes CRON_TZ= prefix or a systemd zone suffix overrides the picked
+  // zone; GitHub Actions always runs in UTC
+  const sourceZone = useMemo(() => {
+    if (direction !== "unix-to-eventbridge") return timeZone;
+    if (sourceDialect === "github") return "UTC";
+    return parseCron(cronInput, sourceDialect).expression?.timeZone?.name ?? timeZone;
+  }, [direction, sourceDialect, cronInput, timeZone]);
+  const isValid = errors.length === 0;
 
   useEffect(() => {
-    if (!unixCron.trim()) {
-      setEventBridgeCron("");
-      setIsValid(true);
-      setError("");
+    if (!cronInput.trim()) {
+      setConvertedExpressions([]);
+      setConversionNotes([]);
+      setDstReport(undefined);
+      setDefinition("");
+      setRateExpression(undefined);
+      setErrors([]);
       return;
     }
 
     try {
-      if (!validateCronExpression(unixCron)) {
-        throw new Error("Invalid Unix cron expression. Check field values, ranges, and note that L, W, and # wildcards are not supported in Unix cron.");
+      if (direction === "unix-to-eventbridge") {
+        const diagnostics = validateCron(cronInput, sourceDialect, { jobName });
+        if (hasErrors(diagnostics)) throw new CronSyntaxError(diagnostics);
+
+        const { expression } = parseCron(cronInput, sourceDialect, { jobName });
+        const simplification = cronToRate(expression);
+        setRateExpression(simplification.rate);
+
+        if (outputTarget === "scheduler") {
+          const converted = toSchedulerSchedules(expression, { ...schedulerOptions, timeZone: sourceZone });
+          if (hasErrors(converted.diagnostics)) throw new CronSyntaxError(converted.diagnostics);
+          setConvertedExpressions(converted.schedules.map((schedule) => unwrapCron(schedule.ScheduleExpression).body));
+          setConversionNotes([...diagnostics, ...converted.diagnostics, ...simplification.diagnostics]);
+          setDstReport(undefined);
+          setDefinition(
+            JSON.stringify(converted.schedules.length === 1 ? converted.schedules[0] : converted.schedules, null, 2)
+          );
+        } else {
+          const converted = convertCronToEventBridge(
+            cronInput,
+            { timeZone: sourceZone, dstStrategy: splitAtDst ? "split" : "fixed", jobName },
+            sourceDialect
+          );
+          if (hasErrors(converted.diagnostics)) throw new CronSyntaxError(converted.diagnostics);
+          setConvertedExpressions(converted.rules);
+          setConversionNotes([...converted.diagnostics, ...simplification.diagnostics]);
+          setDstReport(converted.dst);
+          setDefinition("");
+        }
+      } else {
+        const converted = isRateExpression(cronInput)
+          ? convertRateToUnix(cronInput)
+          : convertEventBridgeToUnix(cronInput);
+        // Constructs with no Unix equivalent point at the input just like syntax errors
+        if (hasErrors(converted.diagnostics)) throw new CronSyntaxError(converted.diagnostics);
+        setDstReport(undefined);
+        if (outputDialect === "github") {
+          const schedule = toGitHubSchedule(converted.lines);
+          setConvertedExpressions(converted.lines);
+          setConversionNotes([...converted.diagnostics, ...schedule.diagnostics]);
+          setDefinition(schedule.yaml);
+        } else if (outputDialect === "systemd") {
+          // EventBridge rules run in UTC, so every event carries the zone
+          const expressions = converted.lines.flatMap((line) => parseCron(line).expression ?? []);
+          const timer = toSystemdTimer(expressions, { timeZone: "UTC" });
+          setConvertedExpressions(timer.events);
+          setConversionNotes([...converted.diagnostics, ...timer.diagnostics]);
+          setDefinition(timer.unit);
+        } else if (outputDialect === "azure") {
+          const triggers = toAzureTimerTriggers(converted.lines);
+          setConvertedExpressions(triggers.schedules);
+          setConversionNotes([...converted.diagnostics, ...triggers.diagnostics]);
+          setDefinition(triggers.functionJson);
+        } else if (outputDialect === "gcp") {
+          const jobs = toCloudSchedulerJobs(converted.lines);
+          setConvertedExpressions(converted.lines);
+          setConversionNotes([...converted.diagnostics, ...jobs.diagnostics]);
+          setDefinition(jobs.commands);
+        } else {
+          setConvertedExpressions(converted.lines);
+          setConversionNotes(converted.diagnostics);
+          setDefinition(outputDialect === "kubernetes" ? toKubernetesCronJobs(converted.lines) : "");
+        }
+        setRateExpression(undefined);
       }
-      
-      const converted = convertCronToEventBridge(unixCron);
-      setEventBridgeCron(converted);
-      setIsValid(true);
-      setError("");
+      setErrors([]);
     } catch (err) {
-      setIsValid(false);
-      setError(err instanceof Error ? err.message : "Invalid expression");
-      setEventBridgeCron("");
+      setErrors(
+        err instanceof CronSyntaxError
+          ? err.diagnostics.filter((diagnostic) => diagnostic.severity === "error")
+          : [{ severity: "error", code: "conversion-failed", message: err instanceof Error ? err.message : "Invalid expression" }]
+      );
+      setConvertedExpressions([]);
+      setConversionNotes([]);
+      setDstReport(undefined);
+      setDefinition("");
+      setRateExpression(undefined);
     }
-  }, [unixCron]);
+  }, [
+    cronInput,
+    direction,
+    sourceDialect,
+    outputDialect,
+    sourceZone,
+    splitAtDst,
+    outputTarget,
+    schedulerOptions,
+    jobName,
+  ]);
+
+  const usesScheduler = direction === "unix-to-eventbridge" && outputTarget === "scheduler";
+
+  const preview = useMemo(() => {
+    const source = parseCron(cronInput, labels.from, { jobName }).expression;
+    const converted = convertedExpressions
+      .map((expression) => parseCron(expression, labels.to).expression)
+      .filter((expression): expression is CronExpression => expression !== undefined);
+    return source && converted.length ? { source, converted } : undefined;
+  }, [cronInput, convertedExpressions, labels, jobName]);
+
+  // The same schedule as a systemd timer, for jobs that stay on the host
+  const timerUnit = useMemo(() => {
+    if (direction !== "unix-to-eventbridge" || !isValid || !TIMER_SOURCES.includes(sourceDialect)) return "";
+    const { expression } = parseCron(cronInput, sourceDialect, { jobName });
+    if (!expression) return "";
+    return toSystemdTimer([expression], { description: describeCron(expression, "en"), timeZone: sourceZone }).unit;
+  }, [direction, isValid, sourceDialect, cronInput, jobName, sourceZone]);
+
+  const descriptions = useMemo(() => {
+    const describe = (source: string, dialect: CronDialect) => {
+      if (isRateExpression(source)) {
+        const { rate } = parseRate(source);
+        return rate ? describeRate(rate, language) : "";
+      }
+      const { expression } = parseCron(source, dialect, { jobName });
+      return expression ? describeCron(expression, language) : "";
+    };
+    return {
+      input: isValid ? describe(cronInput, labels.from) : "",
+      outputs: convertedExpressions.map((expression) => describe(expression, labels.to)),
+    };
+  }, [cronInput, convertedExpressions, labels, isValid, language, jobName]);
+
+  // Descriptions read in the zone each side runs in; plain rules always run in UTC
+  const shifted = direction === "unix-to-eventbridge" && sourceZone !== "UTC";
+  const inputZone = shifted ? ` (${sourceZone})` : "";
+  const outputZone = shifted ? (usesScheduler ? ` (${sourceZone})` : " (UTC)") : "";
+
+  // Templates are written in English whatever the description language
+  const templateOptions = useMemo<CloudFormationOptions>(
+    () => ({
+      description: preview && `${describeCron(preview.source, "en")}${inputZone}`,
+      target: outputTarget,
+      timeZone: sourceZone,
+    }),
+    [preview, inputZone, outputTarget, sourceZone]
+  );
+
+  // Carry the current result over so switching direction round-trips it
+  const switchDirection = (next: Direction) => {
+    if (next === direction) return;
+    // Keep the same cron flavour on the other side
+    if (next === "unix-to-eventbridge") setSourceDialect(outputDialect);
+    else setOutputDialect(sourceDialect in OUTPUT_DIALECTS ? (sourceDialect as OutputDialect) : "unix");
+    setCronInput(convertedExpressions[0] ?? DIRECTIONS[next].inputPlaceholder);
+    setDirection(next);
+  };
+
+  const selectSourceDialect = (next: SourceDialect) => {
+    if (next === sourceDialect) return;
+    setSourceDialect(next);
+    setCronInput(SOURCE_DIALECTS[next].inputPlaceholder);
+  };
 
-  const copyToClipboard = async (text: string) => {
+  const selectExample = (unix: string) => {
+    setDirection("unix-to-eventbridge");
+    setSourceDialect("unix");
+    setCronInput(unix);
+  };
+
+  const copyToClipboard = async (text: string, message = labels.copied) => {
     try {
       await navigator.clipboard.writeText(text);
       toast({
         title: "Copied!",
-        description: "EventBridge cron expression copied to clipboard",
+        description: message,
       });
     } catch (err) {
       toast({
@@ -220,58 +437,13 @@ const Index = () => {
     }
   };
 
-  const examples = [
-    { 
-      unix: "15 12 * * *", 
-      description: "Run at 12:15 PM every day", 
-      eventbridge: "15 12 * * ? *" 
-    },
-    { 
-      unix: "0 18 * * 1-5", 
-      description: "Run at 6:00 PM Monday through Friday", 
-      eventbridge: "0 18 ? * 2-6 *" 
-    },
-    { 
-      unix: "0 8 1 * *", 
-      description: "Run at 8:00 AM on 1st day of month", 
-      eventbridge: "0 8 1 * ? *" 
-    },
-    { 
-      unix: "0/15 * * * *", 
-      description: "Run every 15 minutes", 
-      eventbridge: "0/15 * * * ? *" 
-    },
-    { 
-      unix: "0/10 * * * 1-5", 
-      description: "Run every 10 minutes Monday through Friday", 
-      eventbridge: "0/10 * ? * 2-6 *" 
-    },
-    { 
-      unix: "0/5 8-17 * * 1-5", 
-      description: "Run every 5 minutes, 8 AM to 5:55 PM, Monday-Friday", 
-      eventbridge: "0/5 8-17 ? * 2-6 *" 
-    },
-    { 
-      unix: "30 14 * * 0", 
-      description: "Every Sunday at 2:30 PM", 
-      eventbridge: "30 14 ? * 1 *" 
-    },
-    { 
-      unix: "0 8 * * 1,3,5", 
-      description: "Monday, Wednesday, Friday at 8:00 AM", 
-      eventbridge: "0 8 ? * 2,4,6 *" 
-    },
-    { 
-      unix: "0 12 * JAN,JUN,DEC *", 
-      description: "Noon on every day in January, June, and December", 
-      eventbridge: "0 12 * JAN,JUN,DEC ? *" 
-    },
-    { 
-      unix: "0 9 1-7 * 1", 
-      description: "9 AM on first Monday of every month", 
-      eventbridge: "0 9 ? * 2 *" 
-    }
-  ];
+  // Descriptions are generated so they always match the expressions
+  const examples = CONVERSION_EXAMPLES.map((example) => ({
+    ...example,
+    description: `${describeCron(parseCron(example.unix).expression, language)}${
+      example.eventbridge.length > 1 ? " (split into two rules)" : ""
+    }`,
+  }));
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-4">
@@ -285,38 +457,139 @@ const Index = () => {
             Cron to EventBridge Converter
           </h1>
           <p className="text-xl text-slate-300 max-w-2xl mx-auto">
-            Convert Unix cron expressions to AWS EventBridge compatible format
+            Convert Unix cron expressions to AWS EventBridge compatible format, and back
           </p>
         </div>
 
         {/* Main Converter */}
         <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
-          <CardHeader>
+          <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 space-y-0">
             <CardTitle className="text-white flex items-center gap-2">
               <Clock className="w-5 h-5" />
               Cron Expression Converter
             </CardTitle>
+            <Tabs value={direction} onValueChange={(value) => switchDirection(value as Direction)}>
+              <TabsList className="bg-slate-700">
+                <TabsTrigger value="unix-to-eventbridge">Unix → EventBridge</TabsTrigger>
+                <TabsTrigger value="eventbridge-to-unix">EventBridge → Unix</TabsTrigger>
+              </TabsList>
+            </Tabs>
           </CardHeader>
           <CardContent className="space-y-6">
             {/* Input Section */}
             <div className="space-y-2">
-              <Label htmlFor="unix-cron" className="text-slate-200">
-                Unix Cron Expression (5 fields)
-              </Label>
-              <Input
-                id="unix-cron"
-                value={unixCron}
-                onChange={(e) => setUnixCron(e.target.value)}
-                placeholder="0 9 * * 1"
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="cron-input" className="text-slate-200">
+                  {labels.inputLabel}
+                </Label>
+                {direction === "unix-to-eventbridge" && (
+                  <Select value={sourceDialect} onValueChange={(value) => selectSourceDialect(value as SourceDialect)}>
+                    <SelectTrigger
+                      aria-label="Source cron dialect"
+                      className="w-36 h-8 shrink-0 bg-slate-700 border-slate-600 text-white text-sm"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(SOURCE_DIALECTS).map(([dialect, { name }]) => (
+                        <SelectItem key={dialect} value={dialect}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <HighlightedCronInput
+                id="cron-input"
+                value={cronInput}
+                onChange={setCronInput}
+                diagnostics={errors}
+                placeholder={labels.inputPlaceholder}
                 className={`bg-slate-700 border-slate-600 text-white placeholder-slate-400 text-lg font-mono ${
                   !isValid ? "border-red-500" : ""
                 }`}
               />
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-slate-200">
+                  {descriptions.input}
+                  {descriptions.input && inputZone}
+                </p>
+                <Select value={language} onValueChange={(value) => setLanguage(value as DescriptionLanguage)}>
+                  <SelectTrigger
+                    aria-label="Description language"
+                    className="w-36 h-8 shrink-0 bg-slate-700 border-slate-600 text-white text-sm"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(DESCRIPTION_LOCALES).map(([code, locale]) => (
+                      <SelectItem key={code} value={code}>
+                        {locale.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <p className="text-sm text-slate-400">
-                Format: minute hour day-of-month month day-of-week
+                Format: {labels.inputFormat}
               </p>
             </div>
 
+            {/* Jenkins Job Name */}
+            {direction === "unix-to-eventbridge" && sourceDialect === "jenkins" && (
+              <div className="space-y-2">
+                <Label htmlFor="jenkins-job-name" className="text-slate-200">
+                  Jenkins Job Name
+                </Label>
+                <Input
+                  id="jenkins-job-name"
+                  value={jobName}
+                  onChange={(e) => setJobName(e.target.value)}
+                  placeholder="folder/my-pipeline"
+                  className="bg-slate-700 border-slate-600 text-white placeholder-slate-400 font-mono"
+                />
+                <p className="text-sm text-slate-400">
+                  The job's full name, including folders; Jenkins hashes it to pick the values of H
+                </p>
+              </div>
+            )}
+
+            {/* Source Time Zone */}
+            {direction === "unix-to-eventbridge" && sourceDialect !== "github" && (
+              <div className="space-y-2">
+                <Label htmlFor="source-time-zone" className="text-slate-200">
+                  Source Time Zone
+                </Label>
+                <Select value={timeZone} onValueChange={setTimeZone}>
+                  <SelectTrigger id="source-time-zone" className="bg-slate-700 border-slate-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COMMON_TIME_ZONES.map((zone) => (
+                      <SelectItem key={zone} value={zone}>
+                        {zone}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-slate-400">
+                  {SOURCE_DIALECTS[sourceDialect].zoneHint ?? "The zone your crontab runs in (its TZ or CRON_TZ)"}
+                  {usesScheduler
+                    ? "; Scheduler evaluates the expression in it, including DST"
+                    : "; hours are shifted into UTC for EventBridge"}
+                </p>
+                {!usesScheduler && (
+                  <div className="flex items-center gap-2 pt-1">
+                    <Switch id="split-at-dst" checked={splitAtDst} onCheckedChange={setSplitAtDst} />
+                    <Label htmlFor="split-at-dst" className="text-slate-300 font-normal">
+                      Split rules at daylight saving transitions
+                    </Label>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Arrow */}
             <div className="flex justify-center">
               <div className="bg-gradient-to-r from-purple-500 to-pink-500 p-2 rounded-full">
@@ -324,47 +597,213 @@ const Index = () => {
               </div>
             </div>
 
+            {/* Output Target */}
+            {direction === "unix-to-eventbridge" && (
+              <div className="space-y-4">
+                <Tabs value={outputTarget} onValueChange={(value) => setOutputTarget(value as OutputTarget)}>
+                  <TabsList className="bg-slate-700">
+                    <TabsTrigger value="rule">EventBridge Rule</TabsTrigger>
+                    <TabsTrigger value="scheduler">EventBridge Scheduler</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                {usesScheduler && (
+                  <SchedulerOptionsForm options={schedulerOptions} timeZone={sourceZone} onChange={setSchedulerOptions} />
+                )}
+              </div>
+            )}
+            {direction === "eventbridge-to-unix" && (
+              <Tabs value={outputDialect} onValueChange={(value) => setOutputDialect(value as OutputDialect)}>
+                <TabsList className="bg-slate-700">
+                  {Object.entries(OUTPUT_DIALECTS).map(([dialect, { name }]) => (
+                    <TabsTrigger key={dialect} value={dialect}>
+                      {name}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+            )}
+
             {/* Output Section */}
             <div className="space-y-2">
-              <Label htmlFor="eventbridge-cron" className="text-slate-200">
-                AWS EventBridge Cron Expression (6 fields)
+              <Label htmlFor="cron-output" className="text-slate-200">
+                {labels.outputLabel}
+                {convertedExpressions.length > 1 ? "s" : ""}
               </Label>
-              <div className="relative">
-                <Input
-                  id="eventbridge-cron"
-                  value={eventBridgeCron}
-                  readOnly
-                  className="bg-slate-700 border-slate-600 text-white font-mono text-lg pr-12"
-                  placeholder="Converted expression will appear here..."
-                />
-                {eventBridgeCron && (
+              {(convertedExpressions.length ? convertedExpressions : [""]).map((rule, index) => (
+                <div key={index} className="space-y-1">
+                  <div className="relative">
+                    <Input
+                      id={index === 0 ? "cron-output" : undefined}
+                      value={rule}
+                      readOnly
+                      className="bg-slate-700 border-slate-600 text-white font-mono text-lg pr-12"
+                      placeholder="Converted expression will appear here..."
+                    />
+                    {rule && direction === "unix-to-eventbridge" && (
+                      <CopyFormatMenu
+                        rule={rule}
+                        rules={convertedExpressions}
+                        options={templateOptions}
+                        className="absolute right-2 top-1/2 transform -translate-y-1/2 text-slate-400 hover:text-white"
+                        onCopy={copyToClipboard}
+                      />
+                    )}
+                    {rule && direction === "eventbridge-to-unix" && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="absolute right-2 top-1/2 transform -translate-y-1/2 text-slate-400 hover:text-white"
+                        onClick={() => copyToClipboard(rule)}
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                  {descriptions.outputs[index] && (
+                    <p className="text-sm text-slate-200">
+                      {descriptions.outputs[index]}
+                      {outputZone}
+                    </p>
+                  )}
+                </div>
+              ))}
+              <p className="text-sm text-slate-400">
+                Format: {labels.outputFormat}
+              </p>
+            </div>
+
+            {/* Rate Equivalent */}
+            {direction === "unix-to-eventbridge" && rateExpression && (
+              <div className="space-y-2">
+                <Label htmlFor="rate-output" className="text-slate-200">
+                  Equivalent Rate Expression
+                </Label>
+                <div className="relative">
+                  <Input
+                    id="rate-output"
+                    value={rateExpression}
+                    readOnly
+                    className="bg-slate-700 border-slate-600 text-white font-mono text-lg pr-12"
+                  />
                   <Button
                     size="sm"
                     variant="ghost"
                     className="absolute right-2 top-1/2 transform -translate-y-1/2 text-slate-400 hover:text-white"
-                    onClick={() => copyToClipboard(eventBridgeCron)}
+                    onClick={() => copyToClipboard(rateExpression)}
                   >
                     <Copy className="w-4 h-4" />
                   </Button>
-                )}
+                </div>
+                <p className="text-sm text-slate-400">
+                  This schedule is a fixed interval, which EventBridge can also express as rate(value unit)
+                </p>
               </div>
-              <p className="text-sm text-slate-400">
-                Format: minute hour day-of-month month day-of-week year
-              </p>
-            </div>
+            )}
 
-            {/* Error Display */}
-            {!isValid && error && (
-              <Alert className="bg-red-900/50 border-red-700">
+            {/* Scheduler Definition / CronJob Manifest */}
+            {definition && (
+              <div className="space-y-2">
+                <Label htmlFor="definition" className="text-slate-200">
+                  {usesScheduler
+                    ? "Scheduler Schedule Definition (create-schedule --cli-input-json)"
+                    : OUTPUT_DIALECTS[outputDialect].definitionLabel}
+                </Label>
+                <div className="relative">
+                  <Textarea
+                    id="definition"
+                    value={definition}
+                    readOnly
+                    rows={Math.min(definition.split("\n").length, 24)}
+                    className="bg-slate-700 border-slate-600 text-white font-mono text-sm pr-12"
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="absolute right-2 top-2 text-slate-400 hover:text-white"
+                    onClick={() => copyToClipboard(definition)}
+                  >
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* systemd Timer Unit */}
+            {timerUnit && (
+              <div className="space-y-2">
+                <Label htmlFor="timer-unit" className="text-slate-200">
+                  {OUTPUT_DIALECTS.systemd.definitionLabel}
+                </Label>
+                <div className="relative">
+                  <Textarea
+                    id="timer-unit"
+                    value={timerUnit}
+                    readOnly
+                    rows={timerUnit.split("\n").length}
+                    className="bg-slate-700 border-slate-600 text-white font-mono text-sm pr-12"
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="absolute right-2 top-2 text-slate-400 hover:text-white"
+                    onClick={() => copyToClipboard(timerUnit, "systemd timer unit copied to clipboard")}
+                  >
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </div>
+                <p className="text-sm text-slate-400">Starts the .service unit of the same name</p>
+              </div>
+            )}
+
+            {/* CloudFormation / SAM Export */}
+            {direction === "unix-to-eventbridge" && isValid && convertedExpressions.length > 0 && (
+              <TemplateExport rules={convertedExpressions} options={templateOptions} onCopy={copyToClipboard} />
+            )}
+
+            {/* Next Runs */}
+            {isValid && preview && (
+              <NextRunsTable
+                source={preview.source}
+                converted={preview.converted}
+                sourceLabel={direction === "unix-to-eventbridge" ? SOURCE_DIALECTS[sourceDialect].name : "EventBridge"}
+                convertedLabel={direction === "unix-to-eventbridge" ? "EventBridge" : OUTPUT_DIALECTS[outputDialect].name}
+                sourceTimeZone={direction === "unix-to-eventbridge" ? sourceZone : undefined}
+                convertedTimeZone={usesScheduler ? sourceZone : undefined}
+              />
+            )}
+
+            {/* DST Report */}
+            {isValid && dstReport && <DstTransitionsPanel report={dstReport} />}
+
+            {/* Conversion Notes */}
+            {conversionNotes.map((note, index) => (
+              <Alert key={index} className={NOTE_STYLES[note.severity].alert}>
                 <Info className="h-4 w-4" />
-                <AlertDescription className="text-red-200">
-                  {error}
+                <AlertDescription className={NOTE_STYLES[note.severity].text}>
+                  {note.message}
                 </AlertDescription>
               </Alert>
-            )}
+            ))}
+
+            {/* Error Display */}
+            {errors.map((diagnostic, index) => {
+              const location = describeLocation(diagnostic, labels.from);
+              return (
+                <Alert key={index} className="bg-red-900/50 border-red-700">
+                  <Info className="h-4 w-4" />
+                  <AlertDescription className="text-red-200">
+                    {location && <span className="font-mono text-red-300 mr-2">[{location}]</span>}
+                    {diagnostic.message}
+                  </AlertDescription>
+                </Alert>
+              );
+            })}
           </CardContent>
         </Card>
 
+        {/* Crontab File Import */}
+        <CrontabImport language={language} />
+
         {/* Examples */}
         <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
           <CardHeader>
@@ -376,7 +815,7 @@ const Index = () => {
                 <div
                   key={index}
                   className="flex flex-col sm:flex-row items-start sm:items-center gap-4 p-4 bg-slate-700/50 rounded-lg cursor-pointer hover:bg-slate-700/70 transition-colors"
-                  onClick={() => setUnixCron(example.unix)}
+                  onClick={() => selectExample(example.unix)}
                 >
                   <div className="flex-1 space-y-1">
                     <p className="text-slate-200 font-medium">{example.description}</p>
@@ -384,9 +823,11 @@ const Index = () => {
                       <Badge variant="outline" className="font-mono text-xs border-slate-600 text-slate-300">
                         Unix: {example.unix}
                       </Badge>
-                      <Badge variant="outline" className="font-mono text-xs border-slate-600 text-slate-300">
-                        EventBridge: {example.eventbridge}
-                      </Badge>
+                      {example.eventbridge.map((rule) => (
+                        <Badge key={rule} variant="outline" className="font-mono text-xs border-slate-600 text-slate-300">
+                          EventBridge: {rule}
+                        </Badge>
+                      ))}
                     </div>
                   </div>
                 </div>
@@ -464,9 +905,10 @@ const Index = () => {
                   <li>• 5 fields: minute hour day-of-month month day-of-week</li>
                   <li>• Sunday = 0, Monday = 1, ..., Saturday = 6</li>
                   <li>• No year field</li>
-                  <li>• Uses system's local timezone</li>
+                  <li>• Uses system's local timezone (pick it as the source time zone above)</li>
                   <li>• Allows '*' in all fields</li>
                   <li>• No L, W, or # wildcards</li>
+                  <li>• Macros such as @daily and @hourly stand for fixed fields; @reboot has no schedule equivalent</li>
                 </ul>
               </div>
               <div className="space-y-3">
@@ -486,10 +928,14 @@ const Index = () => {
               <h4 className="text-md font-semibold text-yellow-300 mb-2">Important Limitations</h4>
               <ul className="space-y-1 text-slate-300 text-sm">
                 <li>• EventBridge requires '?' in either day-of-month OR day-of-week when the other is specified</li>
-                <li>• Day-of-week conversion: Unix 0→1, 1→2, 2→3, 3→4, 4→5, 5→6, 6→7</li>
-                <li>• EventBridge schedules are always in UTC - adjust your times accordingly</li>
-                <li>• You cannot use both day-of-month and day-of-week in the same expression</li>
-                <li>• Rates faster than 1 minute are not supported in EventBridge</li>
+                <li>• Day-of-week conversion: Unix 0→1, 1→2, 2→3, 3→4, 4→5, 5→6, 6→7 (and 7→1)</li>
+                <li>• EventBridge schedules are always in UTC - pick a source time zone to have hours shifted for you</li>
+                <li>• You cannot use both day-of-month and day-of-week in the same expression; Unix schedules that restrict both are split into two rules</li>
+                <li>• Rates faster than 1 minute are not supported in EventBridge; the seconds of Quartz and Spring expressions are dropped</li>
+                <li>• Quartz numbers weekdays like EventBridge (Sunday = 1); Spring numbers them like Unix (Sunday = 0)</li>
+                <li>• Azure NCRONTAB adds a seconds field and, like Quartz and Spring, only fires when both day fields match</li>
+                <li>• Jenkins H resolves to fixed values hashed from the job name, and Jenkins also needs both day fields to match</li>
+                <li>• rate() only fits fixed intervals: */15 minutes is rate(15 minutes), but */7 restarts every hour and is not</li>
                 <li>• Using '#' allows only one expression in day-of-week field</li>
               </ul>
             </div>